@@ -8,12 +8,35 @@ import {
   Text,
   Banner,
   TextField,
+  Select,
+  Checkbox,
   useApi,
 } from '@shopify/ui-extensions-react/admin';
-import type { BundleConfig, BundleProduct } from './types';
-import { GET_PRODUCT_METAFIELDS, GET_PRODUCTS_INVENTORY } from './graphql/queries';
+import type { BundleAlertSettings, BundleHealthIssue, BundlePricingRule, BundleProduct, ComponentGroup, ProductVariant } from './types';
+import { ComponentGroupsEditor } from './ComponentGroupsEditor';
+import { PricingEditor } from './PricingEditor';
+import { fetchInventory as fetchComponentInventory, bundleAvailability, loadBundleConfigs as loadComponentConfigs } from './bundle-data';
+import {
+  parseBundleConfig,
+  serializeBundleConfig,
+  expandBundleComponents,
+  currentHealthIssues,
+  BundleConfigError,
+  formatIssue,
+} from '../../../shared/bundle-config.js';
+import { GET_PRODUCT_METAFIELDS, GET_VARIANTS } from './graphql/queries';
 import { SAVE_BUNDLE_CONFIG } from './graphql/mutations';
-import type { ProductMetafieldsQueryResponse, MetafieldsSetResponse } from './graphql/types';
+import type {
+  ProductMetafieldsQueryResponse,
+  MetafieldsSetResponse,
+  VariantsQueryResponse,
+} from './graphql/types';
+
+const DEFAULT_COMPONENTS = '';
+
+function componentKey(product: BundleProduct): string {
+  return `${product.productId}:${product.variantId || ''}`;
+}
 
 function BundleManagerBlock() {
   const api = useApi<'admin.product-details.block.render'>();
@@ -21,6 +44,15 @@ function BundleManagerBlock() {
 
   const [isBundle, setIsBundle] = useState<boolean>(false);
   const [bundleProducts, setBundleProducts] = useState<BundleProduct[]>([]);
+  const [variantComponents, setVariantComponents] = useState<Record<string, BundleProduct[]>>({});
+  const [groups, setGroups] = useState<ComponentGroup[]>([]);
+  const [pricing, setPricing] = useState<BundlePricingRule | undefined>(undefined);
+  const [alerts, setAlerts] = useState<BundleAlertSettings>({});
+  // Found by the server when a component is deleted or archived
+  const [health, setHealth] = useState<BundleHealthIssue[]>([]);
+  const [currencyCode, setCurrencyCode] = useState<string>('');
+  const [bundleVariants, setBundleVariants] = useState<ProductVariant[]>([]);
+  const [editingVariantId, setEditingVariantId] = useState<string>(DEFAULT_COMPONENTS);
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
   const [message, setMessage] = useState<string>('');
@@ -29,6 +61,19 @@ function BundleManagerBlock() {
 
   const productId = data.selected[0]?.id;
 
+  // Variants without their own mapping use the default component list
+  const isCustomVariant = editingVariantId !== DEFAULT_COMPONENTS && editingVariantId in variantComponents;
+  const currentProducts = isCustomVariant ? variantComponents[editingVariantId] : bundleProducts;
+  const canEditCurrent = editingVariantId === DEFAULT_COMPONENTS || isCustomVariant;
+
+  const setCurrentProducts = (products: BundleProduct[]) => {
+    if (isCustomVariant) {
+      setVariantComponents({ ...variantComponents, [editingVariantId]: products });
+    } else {
+      setBundleProducts(products);
+    }
+  };
+
   useEffect(() => {
     if (productId) {
       loadBundleConfig();
@@ -45,62 +90,53 @@ function BundleManagerBlock() {
         variables: { productId },
       })) as ProductMetafieldsQueryResponse;
 
+      const variants = result?.data?.product?.variants?.edges.map(edge => edge.node) || [];
+      setBundleVariants(variants);
+      setCurrencyCode(result?.data?.shop?.currencyCode || '');
+
       if (result?.data?.product?.metafield) {
         const metafield = result.data.product.metafield;
         setMetafieldId(metafield.id);
 
-        const config: BundleConfig = JSON.parse(metafield.value);
+        const config = parseBundleConfig(metafield.value);
 
         setIsBundle(config.isBundle);
-        setBundleProducts(config.products || []);
+        setBundleProducts(await fetchInventory(config.products || []));
 
-        if (config.products && config.products.length > 0) {
-          await fetchInventory(config.products);
+        const loadedVariantComponents: Record<string, BundleProduct[]> = {};
+        for (const [variantId, products] of Object.entries(config.variantComponents || {})) {
+          loadedVariantComponents[variantId] = await fetchInventory(products);
         }
+        setVariantComponents(loadedVariantComponents);
+
+        const loadedGroups: ComponentGroup[] = [];
+        for (const group of config.groups || []) {
+          loadedGroups.push({ ...group, options: await fetchInventory(group.options) });
+        }
+        setGroups(loadedGroups);
+        setPricing(config.pricing);
+        setAlerts(config.alerts || {});
+        setHealth(config.health || []);
 
         setMessage('Bundle configuration loaded');
       }
     } catch (error) {
-      setMessage('Failed to load bundle configuration');
+      setMessage(error instanceof BundleConfigError
+        ? `Saved bundle configuration is invalid: ${error.issues.map(formatIssue).join('; ')}`
+        : 'Failed to load bundle configuration');
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchInventory = async (products: BundleProduct[]) => {
-    try {
-      const productIds = products.map(p => p.productId);
-
-      const result: any = await query(GET_PRODUCTS_INVENTORY, {
-        variables: { ids: productIds },
-      });
-
-      if (result?.data?.nodes) {
-        const updatedProducts = products.map(product => {
-          const inventoryData = result.data.nodes.find((n: any) => n?.id === product.productId);
-          if (inventoryData) {
-            return {
-              ...product,
-              inventory: inventoryData.totalInventory || 0,
-              tracksInventory: inventoryData.tracksInventory || false,
-            };
-          }
-          return product;
-        });
-
-        setBundleProducts(updatedProducts);
-      }
-    } catch (error) {
-      // Silently fail - inventory is optional
-    }
-  };
+  const fetchInventory = (products: BundleProduct[]) => fetchComponentInventory(query, products);
 
   const handleRefreshInventory = async () => {
-    if (bundleProducts.length === 0) return;
+    if (currentProducts.length === 0) return;
 
     try {
       setRefreshingInventory(true);
-      await fetchInventory(bundleProducts);
+      setCurrentProducts(await fetchInventory(currentProducts));
       setMessage('Inventory refreshed successfully');
     } catch (error) {
       setMessage('Failed to refresh inventory');
@@ -109,23 +145,34 @@ function BundleManagerBlock() {
     }
   };
 
+  // Configs of the products a bundle refers to, for nesting checks
+  const loadBundleConfigs = (ids: string[]) => loadComponentConfigs(query, ids);
+
   const handleSave = async () => {
     if (!productId) return;
 
     try {
       setSaving(true);
 
-      const bundleConfig: BundleConfig = {
-        isBundle,
-        products: bundleProducts,
-      };
+      // Refuse configs that contain this bundle, directly or through nested
+      // bundles, or nest too deeply
+      if (isBundle) {
+        const componentLists = [bundleProducts, ...Object.values(variantComponents), ...groups.map(group => group.options)];
+        for (const products of componentLists) {
+          await expandBundleComponents(productId, products, loadBundleConfigs);
+        }
+      }
+
+      // Issues about components that were removed from the bundle are resolved
+      const config = { isBundle, products: bundleProducts, variantComponents, groups, pricing, alerts, health };
+      const remainingHealth = currentHealthIssues(config);
 
       const metafields = [
         {
           ownerId: productId,
           namespace: 'custom',
           key: 'bundle_config',
-          value: JSON.stringify(bundleConfig),
+          value: serializeBundleConfig({ ...config, health: remainingHealth }),
           type: 'json',
         },
       ];
@@ -144,6 +191,7 @@ function BundleManagerBlock() {
       if (result?.data?.metafieldsSet?.metafields?.[0]?.id) {
         setMetafieldId(result.data.metafieldsSet.metafields[0].id);
       }
+      setHealth(remainingHealth);
 
       setMessage('Bundle configuration saved successfully!');
     } catch (error) {
@@ -153,6 +201,78 @@ function BundleManagerBlock() {
     }
   };
 
+  const addComponents = async (newProducts: BundleProduct[]) => {
+    const includesSelf = newProducts.some(p => p.productId === productId);
+
+    const existingKeys = currentProducts.map(componentKey);
+    const uniqueNewProducts = newProducts.filter(
+      p => p.productId !== productId && !existingKeys.includes(componentKey(p))
+    );
+
+    const combinedProducts = [...currentProducts, ...uniqueNewProducts];
+    setCurrentProducts(await fetchInventory(combinedProducts));
+
+    setMessage(includesSelf
+      ? `Added ${uniqueNewProducts.length} product(s) to bundle (a bundle cannot contain itself)`
+      : `Added ${uniqueNewProducts.length} product(s) to bundle`);
+  };
+
+  const pickProducts = async (): Promise<BundleProduct[]> => {
+    if (!('resourcePicker' in api)) return [];
+
+    const selected = await api.resourcePicker({
+      type: 'product',
+      multiple: true,
+    });
+
+    return (selected || []).map(product => {
+      const title = 'title' in product && typeof product.title === 'string' ? product.title : '';
+      return { productId: product.id, quantity: 1, title: title || product.id };
+    });
+  };
+
+  const pickVariants = async (): Promise<BundleProduct[]> => {
+    if (!('resourcePicker' in api)) return [];
+
+    const selected = await api.resourcePicker({
+      type: 'variant',
+      multiple: true,
+    });
+
+    if (!selected || selected.length === 0) return [];
+
+    // Look the variants up so every component carries its product ID and titles
+    const result = (await query(GET_VARIANTS, {
+      variables: { ids: selected.map(variant => variant.id) },
+    })) as VariantsQueryResponse;
+
+    return (result?.data?.nodes || [])
+      .filter((variant): variant is NonNullable<typeof variant> => !!variant?.product)
+      .map(variant => ({
+        productId: variant.product.id,
+        variantId: variant.id,
+        quantity: 1,
+        title: variant.product.title,
+        variantTitle: variant.title,
+      }));
+  };
+
+  // Options for a mix-and-match group, with inventory for the availability estimate
+  const pickGroupOptions = async (type: 'product' | 'variant'): Promise<BundleProduct[]> => {
+    try {
+      if (!('resourcePicker' in api)) {
+        setMessage('Resource picker not available.');
+        return [];
+      }
+
+      const picked = await (type === 'product' ? pickProducts() : pickVariants());
+      return await fetchInventory(picked.filter(option => option.productId !== productId));
+    } catch (error) {
+      setMessage(`Failed to select ${type}s`);
+      return [];
+    }
+  };
+
   const handleAddProduct = async () => {
     try {
       // Check if resourcePicker is available in the API
@@ -163,65 +283,60 @@ function BundleManagerBlock() {
           productId: `gid://shopify/Product/${Date.now()}`,
           quantity: 1,
         };
-        setBundleProducts([...bundleProducts, demoProduct]);
+        setCurrentProducts([...currentProducts, demoProduct]);
         return;
       }
 
-      const selected = await (api as any).resourcePicker({
-        type: 'product',
-        multiple: true,
-      });
-
-      if (selected && selected.length > 0) {
-        const newProducts: BundleProduct[] = selected.map((product: any) => ({
-          productId: product.id,
-          quantity: 1,
-          title: product.title || product.id,
-        }));
-
-        const existingIds = bundleProducts.map(p => p.productId);
-        const uniqueNewProducts = newProducts.filter(
-          p => !existingIds.includes(p.productId)
-        );
-
-        const combinedProducts = [...bundleProducts, ...uniqueNewProducts];
-        setBundleProducts(combinedProducts);
+      const newProducts = await pickProducts();
+      if (newProducts.length > 0) {
+        await addComponents(newProducts);
+      }
+    } catch (error) {
+      setMessage('Failed to select products');
+    }
+  };
 
-        await fetchInventory(combinedProducts);
+  const handleAddVariant = async () => {
+    try {
+      if (!('resourcePicker' in api)) {
+        setMessage('Resource picker not available.');
+        return;
+      }
 
-        setMessage(`Added ${uniqueNewProducts.length} product(s) to bundle`);
+      const newProducts = await pickVariants();
+      if (newProducts.length > 0) {
+        await addComponents(newProducts);
       }
     } catch (error) {
-      setMessage('Failed to select products');
+      setMessage('Failed to select variants');
     }
   };
 
   const handleRemoveProduct = (index: number) => {
-    const updated = bundleProducts.filter((_, i) => i !== index);
-    setBundleProducts(updated);
+    const updated = currentProducts.filter((_, i) => i !== index);
+    setCurrentProducts(updated);
   };
 
   const handleQuantityChange = (index: number, newQuantity: number) => {
-    const updated = [...bundleProducts];
+    const updated = [...currentProducts];
     updated[index] = {
       ...updated[index],
       quantity: Math.max(1, newQuantity),
     };
-    setBundleProducts(updated);
+    setCurrentProducts(updated);
   };
 
-  const calculateBundleAvailability = (): number => {
-    if (bundleProducts.length === 0) return 0;
-
-    const availabilities = bundleProducts.map(product => {
-      if (!product.tracksInventory) return Infinity;
-      if (product.inventory === undefined) return 0;
-      return Math.floor(product.inventory / product.quantity);
-    });
+  const handleCustomizeVariant = () => {
+    setVariantComponents({ ...variantComponents, [editingVariantId]: [...bundleProducts] });
+  };
 
-    return Math.min(...availabilities);
+  const handleUseDefaultComponents = () => {
+    const { [editingVariantId]: _removed, ...rest } = variantComponents;
+    setVariantComponents(rest);
   };
 
+  const calculateBundleAvailability = () => bundleAvailability(currentProducts, groups);
+
   if (loading) {
     return (
       <AdminBlock title="Bundle Manager">
@@ -241,6 +356,19 @@ function BundleManagerBlock() {
           </Banner>
         )}
 
+        {isBundle && health.length > 0 && (
+          <Banner tone="warning" title="Bundle needs attention">
+            <BlockStack>
+              {health.map(issue => (
+                <Text key={`${issue.type}:${issue.variantId || issue.productId}`}>
+                  {issue.message} (since {new Date(issue.detectedAt).toLocaleDateString()})
+                </Text>
+              ))}
+              <Text>Replace or remove the affected components and save.</Text>
+            </BlockStack>
+          </Banner>
+        )}
+
         <Banner title="Configure Product Bundle">
           Mark this product as a bundle and select which products it contains.
         </Banner>
@@ -257,25 +385,60 @@ function BundleManagerBlock() {
             <BlockStack>
               <Text fontWeight="bold">Bundle Contents</Text>
 
-              <InlineStack>
-                <Button onPress={handleAddProduct}>
-                  Add Product to Bundle
-                </Button>
-                {bundleProducts.length > 0 && (
-                  <Button
-                    onPress={handleRefreshInventory}
-                    disabled={refreshingInventory}
-                    variant="secondary"
-                  >
-                    {refreshingInventory ? 'Refreshing...' : 'Refresh Inventory'}
+              {bundleVariants.length > 1 && (
+                <BlockStack>
+                  <Select
+                    label="Components for"
+                    value={editingVariantId}
+                    onChange={setEditingVariantId}
+                    options={[
+                      { value: DEFAULT_COMPONENTS, label: 'All variants (default)' },
+                      ...bundleVariants.map(variant => ({
+                        value: variant.id,
+                        label: variant.id in variantComponents ? `${variant.title} (custom)` : variant.title,
+                      })),
+                    ]}
+                  />
+                  {editingVariantId !== DEFAULT_COMPONENTS && !isCustomVariant && (
+                    <InlineStack>
+                      <Text>This variant uses the default components.</Text>
+                      <Button onPress={handleCustomizeVariant} variant="secondary">
+                        Customize for this variant
+                      </Button>
+                    </InlineStack>
+                  )}
+                  {isCustomVariant && (
+                    <Button onPress={handleUseDefaultComponents} variant="tertiary">
+                      Use default components
+                    </Button>
+                  )}
+                </BlockStack>
+              )}
+
+              {canEditCurrent && (
+                <InlineStack>
+                  <Button onPress={handleAddProduct}>
+                    Add Product to Bundle
+                  </Button>
+                  <Button onPress={handleAddVariant} variant="secondary">
+                    Add Variant to Bundle
                   </Button>
-                )}
-              </InlineStack>
+                  {currentProducts.length > 0 && (
+                    <Button
+                      onPress={handleRefreshInventory}
+                      disabled={refreshingInventory}
+                      variant="secondary"
+                    >
+                      {refreshingInventory ? 'Refreshing...' : 'Refresh Inventory'}
+                    </Button>
+                  )}
+                </InlineStack>
+              )}
 
-              {bundleProducts.length > 0 && (
+              {canEditCurrent && currentProducts.length > 0 && (
                 <BlockStack>
                   <Text fontWeight="bold">Products in Bundle:</Text>
-                  {bundleProducts.map((product, index) => {
+                  {currentProducts.map((product, index) => {
                     const hasInventory = product.tracksInventory
                       ? (product.inventory || 0) >= product.quantity
                       : true;
@@ -284,10 +447,11 @@ function BundleManagerBlock() {
                       : Infinity;
 
                     return (
-                      <BlockStack key={index}>
+                      <BlockStack key={componentKey(product)}>
                         <InlineStack>
                           <Text>
                             {product.title || product.productId}
+                            {product.variantTitle ? ` (${product.variantTitle})` : ''}
                           </Text>
                           {product.tracksInventory && (
                             <Text>
@@ -328,6 +492,38 @@ function BundleManagerBlock() {
                 </BlockStack>
               )}
 
+              <ComponentGroupsEditor
+                groups={groups}
+                onChange={setGroups}
+                pickOptions={pickGroupOptions}
+              />
+
+              <PricingEditor
+                pricing={pricing}
+                onChange={setPricing}
+                components={currentProducts}
+                hasGroups={groups.length > 0}
+                currencyCode={currencyCode}
+              />
+
+              <BlockStack>
+                <Text fontWeight="bold">Stock Alerts</Text>
+                <TextField
+                  label="Low stock alert at (bundles, blank for none)"
+                  value={alerts.lowStock !== undefined ? String(alerts.lowStock) : ''}
+                  onChange={(value) => {
+                    const lowStock = parseInt(value);
+                    setAlerts({ ...alerts, lowStock: lowStock > 0 ? lowStock : undefined });
+                  }}
+                />
+                <Checkbox
+                  checked={alerts.outOfStock !== false}
+                  onChange={(checked) => setAlerts({ ...alerts, outOfStock: checked ? undefined : false })}
+                >
+                  Alert when the bundle sells out
+                </Checkbox>
+              </BlockStack>
+
               <Button
                 onPress={handleSave}
                 disabled={saving}
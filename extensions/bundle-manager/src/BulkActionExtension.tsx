@@ -0,0 +1,406 @@
+import React, { useState, useEffect } from 'react';
+import {
+  reactExtension,
+  AdminAction,
+  BlockStack,
+  InlineStack,
+  Badge,
+  Button,
+  Divider,
+  Text,
+  Banner,
+  TextField,
+  useApi,
+} from '@shopify/ui-extensions-react/admin';
+import type { BundleConfig, BundleProduct } from './types';
+import { fetchInventory, bundleAvailability, loadBundleConfigs } from './bundle-data';
+import {
+  parseBundleConfig,
+  serializeBundleConfig,
+  expandBundleComponents,
+  BundleConfigError,
+  BundleNestingError,
+  formatIssue,
+} from '../../../shared/bundle-config.js';
+import { GET_SELECTED_PRODUCTS, GET_VARIANTS } from './graphql/queries';
+import { SAVE_BUNDLE_CONFIG } from './graphql/mutations';
+import type { SelectedProductsQueryResponse, MetafieldsSetResponse, VariantsQueryResponse } from './graphql/types';
+
+// metafieldsSet takes at most 25 metafields per call
+const METAFIELDS_SET_BATCH_SIZE = 25;
+
+interface SelectedProduct {
+  id: string;
+  title: string;
+  // The product's stock, which for a bundle is the level the server last set
+  stock: number | null;
+  config: BundleConfig | null;
+  // Why the saved config can't be used, when it doesn't validate
+  invalid?: string;
+  // How many bundles the components' current inventory can make, for the
+  // scarcest variant when variants have their own components
+  available?: number;
+}
+
+function componentKey(product: BundleProduct): string {
+  return `${product.productId}:${product.variantId || ''}`;
+}
+
+function componentLabel(product: BundleProduct): string {
+  const title = product.title || product.productId;
+  return product.variantTitle ? `${title} (${product.variantTitle})` : title;
+}
+
+function componentLists(config: BundleConfig): BundleProduct[][] {
+  const variantLists = Object.values(config.variantComponents || {});
+  return config.products.length > 0 || variantLists.length === 0 ? [config.products, ...variantLists] : variantLists;
+}
+
+function BulkBundleAction() {
+  const api = useApi<'admin.product-index.selection-action.render'>();
+  const { data, query, close, auth } = api;
+
+  const [products, setProducts] = useState<SelectedProduct[]>([]);
+  const [component, setComponent] = useState<BundleProduct | null>(null);
+  const [quantity, setQuantity] = useState<string>('1');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [messageTone, setMessageTone] = useState<'success' | 'critical'>('success');
+
+  const productIds = data.selected.map(resource => resource.id);
+  const bundles = products.filter(product => product.config?.isBundle);
+
+  const report = (text: string, tone: 'success' | 'critical' = 'success') => {
+    setMessage(text);
+    setMessageTone(tone);
+  };
+
+  useEffect(() => {
+    loadProducts();
+  }, [productIds.join(',')]);
+
+  const loadProducts = async () => {
+    if (productIds.length === 0) return;
+
+    try {
+      setLoading(true);
+
+      const result = (await query(GET_SELECTED_PRODUCTS, {
+        variables: { ids: productIds },
+      })) as SelectedProductsQueryResponse;
+
+      const loaded: SelectedProduct[] = [];
+      for (const node of result?.data?.nodes || []) {
+        if (!node) continue;
+
+        const product: SelectedProduct = {
+          id: node.id,
+          title: node.title,
+          stock: node.tracksInventory ? node.totalInventory : null,
+          config: null,
+        };
+
+        try {
+          product.config = node.metafield ? parseBundleConfig(node.metafield.value) : null;
+        } catch (error) {
+          product.invalid = error instanceof BundleConfigError
+            ? error.issues.map(formatIssue).join('; ')
+            : 'Saved bundle configuration is invalid';
+        }
+
+        loaded.push(product);
+      }
+
+      // One inventory lookup for the components of every selected bundle
+      const components = loaded.flatMap(product => product.config?.isBundle
+        ? [...componentLists(product.config).flat(), ...(product.config.groups || []).flatMap(group => group.options)]
+        : []);
+      const inventory = new Map((await fetchInventory(query, components)).map(withInventory => [componentKey(withInventory), withInventory]));
+      const withStock = (list: BundleProduct[]) => list.map(item => ({ ...inventory.get(componentKey(item)), ...item }));
+
+      for (const product of loaded) {
+        if (!product.config?.isBundle) continue;
+
+        const groups = (product.config.groups || []).map(group => ({ ...group, options: withStock(group.options) }));
+        product.available = Math.min(...componentLists(product.config).map(list => bundleAvailability(withStock(list), groups)));
+      }
+
+      setProducts(loaded);
+    } catch (error) {
+      report('Failed to load the selected products', 'critical');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Writes the configs METAFIELDS_SET_BATCH_SIZE at a time, returning the
+   * errors of any batch that failed.
+   */
+  const saveConfigs = async (configs: Array<{ productId: string; config: Omit<BundleConfig, 'version'> }>): Promise<string[]> => {
+    const errors: string[] = [];
+
+    for (let i = 0; i < configs.length; i += METAFIELDS_SET_BATCH_SIZE) {
+      const metafields = configs.slice(i, i + METAFIELDS_SET_BATCH_SIZE).map(({ productId, config }) => ({
+        ownerId: productId,
+        namespace: 'custom',
+        key: 'bundle_config',
+        value: serializeBundleConfig(config),
+        type: 'json',
+      }));
+
+      try {
+        const result = (await query(SAVE_BUNDLE_CONFIG, {
+          variables: { metafields },
+        })) as MetafieldsSetResponse;
+
+        errors.push(...(result?.data?.metafieldsSet?.userErrors || []).map(error => error.message));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return errors;
+  };
+
+  // Unmarking keeps the components, like the toggle on the product page
+  const handleMarkAsBundle = async (isBundle: boolean) => {
+    const changed = products
+      .filter(product => !product.invalid && (product.config?.isBundle ?? false) !== isBundle)
+      .map(product => ({
+        productId: product.id,
+        config: product.config ? { ...product.config, isBundle } : { isBundle, products: [] },
+      }));
+
+    if (changed.length === 0) {
+      report(isBundle ? 'All selected products are already bundles' : 'None of the selected products are bundles');
+      return;
+    }
+
+    try {
+      setBusy(true);
+
+      const errors = await saveConfigs(changed);
+      if (errors.length > 0) {
+        report(`Failed to save: ${errors.join(', ')}`, 'critical');
+      } else {
+        report(`${isBundle ? 'Marked' : 'Unmarked'} ${changed.length} product(s) as bundles`);
+      }
+
+      await loadProducts();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePickProduct = async () => {
+    const selected = await api.resourcePicker({ type: 'product', multiple: false });
+    if (!selected || selected.length === 0) return;
+
+    const [product] = selected;
+    const title = 'title' in product && typeof product.title === 'string' ? product.title : '';
+    setComponent({ productId: product.id, quantity: 1, title: title || product.id });
+  };
+
+  const handlePickVariant = async () => {
+    const selected = await api.resourcePicker({ type: 'variant', multiple: false });
+    if (!selected || selected.length === 0) return;
+
+    // Look the variant up so the component carries its product ID and titles
+    const result = (await query(GET_VARIANTS, {
+      variables: { ids: [selected[0].id] },
+    })) as VariantsQueryResponse;
+
+    const variant = result?.data?.nodes?.[0];
+    if (!variant?.product) {
+      report('Failed to look up the variant', 'critical');
+      return;
+    }
+
+    setComponent({
+      productId: variant.product.id,
+      variantId: variant.id,
+      quantity: 1,
+      title: variant.product.title,
+      variantTitle: variant.title,
+    });
+  };
+
+  // Adds the component to every component list of each selected bundle that
+  // doesn't have it yet
+  const handleAddComponent = async () => {
+    if (!component) return;
+
+    const added = { ...component, quantity: Math.max(1, parseInt(quantity) || 1) };
+    const key = componentKey(added);
+    const skipped: string[] = [];
+    const changed: Array<{ productId: string; config: BundleConfig }> = [];
+
+    try {
+      setBusy(true);
+
+      for (const bundle of bundles) {
+        const config = bundle.config as BundleConfig;
+        const addTo = (list: BundleProduct[]) => list.some(item => componentKey(item) === key) ? list : [...list, added];
+
+        if (bundle.id === added.productId) {
+          skipped.push(`${bundle.title} (a bundle cannot contain itself)`);
+          continue;
+        }
+
+        const updated: BundleConfig = {
+          ...config,
+          products: addTo(config.products),
+          variantComponents: config.variantComponents && Object.fromEntries(
+            Object.entries(config.variantComponents).map(([variantId, list]) => [variantId, addTo(list)])
+          ),
+        };
+
+        if (serializeBundleConfig(updated) === serializeBundleConfig(config)) {
+          skipped.push(`${bundle.title} (already contains it)`);
+          continue;
+        }
+
+        try {
+          for (const list of componentLists(updated)) {
+            await expandBundleComponents(bundle.id, list, ids => loadBundleConfigs(query, ids));
+          }
+        } catch (error) {
+          if (!(error instanceof BundleNestingError)) throw error;
+          skipped.push(`${bundle.title} (${error.message})`);
+          continue;
+        }
+
+        changed.push({ productId: bundle.id, config: updated });
+      }
+
+      const errors = await saveConfigs(changed);
+      const summary = `Added ${componentLabel(added)} to ${changed.length} bundle(s)`
+        + (skipped.length > 0 ? `; skipped ${skipped.join(', ')}` : '');
+
+      if (errors.length > 0) {
+        report(`Failed to save: ${errors.join(', ')}`, 'critical');
+      } else {
+        report(summary);
+        setComponent(null);
+      }
+
+      await loadProducts();
+    } catch (error) {
+      report(`Failed to add the component: ${error instanceof Error ? error.message : 'Unknown error'}`, 'critical');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Asks the app's server to recompute the bundles' levels from component stock
+  const handleResync = async () => {
+    try {
+      setBusy(true);
+
+      const token = await auth.idToken();
+      const response = await fetch('/api/bundles/resync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify({ productIds: bundles.map(bundle => bundle.id) }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP ${response.status}`);
+      }
+
+      report(`Resync of ${bundles.length} bundle(s) queued; their stock levels update shortly`);
+    } catch (error) {
+      report(`Failed to queue the resync: ${error instanceof Error ? error.message : 'Unknown error'}`, 'critical');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <AdminAction
+      title="Bundle Manager"
+      loading={loading}
+      primaryAction={<Button onPress={close}>Done</Button>}
+    >
+      <BlockStack>
+        {message && <Banner tone={messageTone}>{message}</Banner>}
+
+        <Text fontWeight="bold">Selected products</Text>
+        {products.map(product => (
+          <InlineStack key={product.id}>
+            <Text>{product.title}</Text>
+            {product.invalid ? (
+              <Badge tone="critical">Invalid config</Badge>
+            ) : product.config?.isBundle ? (
+              <Badge tone="success">Bundle</Badge>
+            ) : (
+              <Badge>Not a bundle</Badge>
+            )}
+            {product.config?.isBundle && product.available !== undefined && (
+              <Text>
+                {product.available === Infinity ? 'Components not tracked' : `Components can make ${product.available}`}
+                {product.stock !== null ? ` · stock level ${product.stock}` : ''}
+              </Text>
+            )}
+            {product.config?.isBundle && (product.config.health || []).length > 0 && (
+              <Badge tone="warning">Needs attention</Badge>
+            )}
+          </InlineStack>
+        ))}
+
+        <Divider />
+
+        <InlineStack>
+          <Button onPress={() => handleMarkAsBundle(true)} disabled={busy || loading}>
+            Mark as bundles
+          </Button>
+          <Button onPress={() => handleMarkAsBundle(false)} disabled={busy || loading} variant="secondary">
+            Unmark as bundles
+          </Button>
+        </InlineStack>
+
+        <Divider />
+
+        <Text fontWeight="bold">Add a component to the selected bundles</Text>
+        <InlineStack>
+          <Button onPress={handlePickProduct} disabled={busy} variant="secondary">
+            Choose product
+          </Button>
+          <Button onPress={handlePickVariant} disabled={busy} variant="secondary">
+            Choose variant
+          </Button>
+        </InlineStack>
+        {component && (
+          <InlineStack>
+            <Text>{componentLabel(component)}</Text>
+            <TextField label="Quantity" value={quantity} onChange={setQuantity} />
+          </InlineStack>
+        )}
+        <Button onPress={handleAddComponent} disabled={busy || loading || !component || bundles.length === 0}>
+          {`Add to ${bundles.length} bundle(s)`}
+        </Button>
+
+        <Divider />
+
+        <Text>
+          Stock levels are recomputed automatically after orders and on a schedule.
+          Resync to update them now, e.g. after restocking components.
+        </Text>
+        <Button onPress={handleResync} disabled={busy || loading || bundles.length === 0} variant="secondary">
+          Resync stock levels
+        </Button>
+      </BlockStack>
+    </AdminAction>
+  );
+}
+
+export default reactExtension(
+  'admin.product-index.selection-action.render',
+  () => <BulkBundleAction />
+);
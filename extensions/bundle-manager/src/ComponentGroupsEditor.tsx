@@ -0,0 +1,157 @@
+import React from 'react';
+import {
+  BlockStack,
+  InlineStack,
+  Button,
+  Text,
+  TextField,
+  Checkbox,
+} from '@shopify/ui-extensions-react/admin';
+import type { BundleProduct, ComponentGroup } from './types';
+
+interface ComponentGroupsEditorProps {
+  groups: ComponentGroup[];
+  onChange: (groups: ComponentGroup[]) => void;
+  // Opens the resource picker; resolves to the chosen components with inventory
+  pickOptions: (type: 'product' | 'variant') => Promise<BundleProduct[]>;
+}
+
+function optionKey(option: BundleProduct): string {
+  return `${option.productId}:${option.variantId || ''}`;
+}
+
+function nextGroupId(groups: ComponentGroup[]): string {
+  let n = groups.length + 1;
+  while (groups.some(group => group.id === `group_${n}`)) n++;
+  return `group_${n}`;
+}
+
+/**
+ * Worst-case number of bundles a group's options can fill: every customer
+ * choosing the scarcest option as often as the group allows.
+ */
+export function groupAvailability(group: ComponentGroup): number {
+  const perOption = group.options.map(option => {
+    if (!option.tracksInventory) return Infinity;
+    if (option.inventory === undefined) return 0;
+    return Math.floor(option.inventory / (option.quantity * (group.allowRepeats ? group.max : 1)));
+  });
+
+  return perOption.length > 0 ? Math.max(0, Math.min(...perOption)) : Infinity;
+}
+
+export function ComponentGroupsEditor({ groups, onChange, pickOptions }: ComponentGroupsEditorProps) {
+  const updateGroup = (index: number, changes: Partial<ComponentGroup>) => {
+    onChange(groups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+  };
+
+  const handleAddGroup = () => {
+    onChange([...groups, { id: nextGroupId(groups), name: 'Choose your items', min: 1, max: 1, options: [] }]);
+  };
+
+  const handleAddOptions = async (index: number, type: 'product' | 'variant') => {
+    const picked = await pickOptions(type);
+    const existingKeys = groups[index].options.map(optionKey);
+    const newOptions = picked.filter(option => !existingKeys.includes(optionKey(option)));
+
+    updateGroup(index, { options: [...groups[index].options, ...newOptions] });
+  };
+
+  const handleOptionQuantityChange = (index: number, optionIndex: number, quantity: number) => {
+    updateGroup(index, {
+      options: groups[index].options.map((option, i) =>
+        i === optionIndex ? { ...option, quantity: Math.max(1, quantity) } : option
+      ),
+    });
+  };
+
+  return (
+    <BlockStack>
+      <Text fontWeight="bold">Mix-and-match Groups</Text>
+      <Text>
+        Customers choose from each group; the choice is sent as the line item
+        property shown under the group.
+      </Text>
+
+      {groups.map((group, index) => {
+        const available = groupAvailability(group);
+
+        return (
+          <BlockStack key={index}>
+            <InlineStack>
+              <TextField
+                label="Group name"
+                value={group.name}
+                onChange={(value) => updateGroup(index, { name: value })}
+              />
+              <TextField
+                label="Property key"
+                value={group.id}
+                onChange={(value) => updateGroup(index, { id: value.trim().toLowerCase() })}
+              />
+            </InlineStack>
+            <InlineStack>
+              <TextField
+                label="Choose at least"
+                value={String(group.min)}
+                onChange={(value) => updateGroup(index, { min: Math.max(0, parseInt(value) || 0) })}
+              />
+              <TextField
+                label="Choose at most"
+                value={String(group.max)}
+                onChange={(value) => updateGroup(index, { max: Math.max(1, parseInt(value) || 1) })}
+              />
+            </InlineStack>
+            <Checkbox
+              label="Allow choosing the same option more than once"
+              checked={!!group.allowRepeats}
+              onChange={(checked) => updateGroup(index, { allowRepeats: checked })}
+            />
+            <Text>Line item property: _bundle_{group.id}</Text>
+
+            {group.options.map((option, optionIndex) => (
+              <InlineStack key={optionKey(option)}>
+                <Text>
+                  {option.title || option.productId}
+                  {option.variantTitle ? ` (${option.variantTitle})` : ''}
+                  {option.tracksInventory ? ` - ${option.inventory || 0} in stock` : ''}
+                </Text>
+                <TextField
+                  label="Quantity per choice"
+                  value={String(option.quantity)}
+                  onChange={(value) => handleOptionQuantityChange(index, optionIndex, parseInt(value) || 1)}
+                />
+                <Button
+                  onPress={() => updateGroup(index, { options: group.options.filter((_, i) => i !== optionIndex) })}
+                  variant="tertiary"
+                >
+                  Remove
+                </Button>
+              </InlineStack>
+            ))}
+
+            <InlineStack>
+              <Button onPress={() => handleAddOptions(index, 'product')} variant="secondary">
+                Add Product Option
+              </Button>
+              <Button onPress={() => handleAddOptions(index, 'variant')} variant="secondary">
+                Add Variant Option
+              </Button>
+              <Button onPress={() => onChange(groups.filter((_, i) => i !== index))} variant="tertiary">
+                Remove Group
+              </Button>
+            </InlineStack>
+
+            {available < Infinity && (
+              <Text>Worst case: options cover {available} bundle(s) whatever customers choose</Text>
+            )}
+          </BlockStack>
+        );
+      })}
+
+      <Button onPress={handleAddGroup} variant="secondary">
+        Add Mix-and-match Group
+      </Button>
+    </BlockStack>
+  );
+}
@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  BlockStack,
+  InlineStack,
+  Banner,
+  Text,
+  TextField,
+  Select,
+} from '@shopify/ui-extensions-react/admin';
+import { applyPricingRule } from '../../../shared/bundle-config.js';
+import type { BundlePricingRule, BundleProduct } from './types';
+
+const NO_PRICING = 'none';
+
+const DEFAULT_RULES: Record<BundlePricingRule['type'], BundlePricingRule> = {
+  fixed: { type: 'fixed', price: 0 },
+  percentage_off: { type: 'percentage_off', percent: 10 },
+  amount_off: { type: 'amount_off', amount: 0 },
+};
+
+interface PricingEditorProps {
+  pricing: BundlePricingRule | undefined;
+  onChange: (pricing: BundlePricingRule | undefined) => void;
+  // Components being edited, with prices fetched
+  components: BundleProduct[];
+  hasGroups: boolean;
+  currencyCode: string;
+}
+
+function ruleValue(rule: BundlePricingRule): number {
+  switch (rule.type) {
+    case 'fixed':
+      return rule.price;
+    case 'percentage_off':
+      return rule.percent;
+    case 'amount_off':
+      return rule.amount;
+  }
+}
+
+function withValue(rule: BundlePricingRule, value: number): BundlePricingRule {
+  switch (rule.type) {
+    case 'fixed':
+      return { type: 'fixed', price: value };
+    case 'percentage_off':
+      return { type: 'percentage_off', percent: value };
+    case 'amount_off':
+      return { type: 'amount_off', amount: value };
+  }
+}
+
+export function PricingEditor({ pricing, onChange, components, hasGroups, currencyCode }: PricingEditorProps) {
+  const formatMoney = (amount: number) => `${amount.toFixed(2)} ${currencyCode}`;
+
+  // The server recomputes this sum from current prices when it syncs, using
+  // the components of any nested bundle rather than the nested bundle's price
+  const componentTotal = !hasGroups && components.length > 0 && components.every(c => c.price !== undefined)
+    ? components.reduce((sum, c) => sum + (c.price as number) * c.quantity, 0)
+    : null;
+
+  const preview = pricing ? applyPricingRule(pricing, componentTotal) : null;
+
+  const typeOptions = [
+    { value: NO_PRICING, label: 'Set price manually' },
+    { value: 'fixed', label: 'Fixed price' },
+    ...(hasGroups ? [] : [
+      { value: 'percentage_off', label: 'Percentage off component prices' },
+      { value: 'amount_off', label: 'Amount off component prices' },
+    ]),
+  ];
+
+  return (
+    <BlockStack>
+      <Text fontWeight="bold">Bundle Pricing</Text>
+      <InlineStack>
+        <Select
+          label="Pricing rule"
+          value={pricing?.type || NO_PRICING}
+          onChange={(value) => onChange(value === NO_PRICING ? undefined : DEFAULT_RULES[value as BundlePricingRule['type']])}
+          options={typeOptions}
+        />
+        {pricing && (
+          <TextField
+            label={pricing.type === 'percentage_off' ? 'Percent off' : `Amount (${currencyCode})`}
+            value={String(ruleValue(pricing))}
+            onChange={(value) => onChange(withValue(pricing, Math.max(0, parseFloat(value) || 0)))}
+          />
+        )}
+      </InlineStack>
+
+      {pricing && preview && (
+        <Banner tone={preview.compareAtPrice !== null ? 'success' : 'info'}>
+          <BlockStack>
+            {componentTotal !== null && <Text>Components bought separately: {formatMoney(componentTotal)}</Text>}
+            <Text fontWeight="bold">Bundle price: {formatMoney(preview.price)}</Text>
+            {preview.compareAtPrice !== null && (
+              <Text>
+                Customers save {formatMoney(preview.compareAtPrice - preview.price)}
+                {' '}({Math.round((1 - preview.price / preview.compareAtPrice) * 100)}%)
+              </Text>
+            )}
+            {componentTotal !== null && preview.compareAtPrice === null && (
+              <Text>The bundle costs at least as much as its components.</Text>
+            )}
+          </BlockStack>
+        </Banner>
+      )}
+
+      {pricing && !preview && (
+        <Text>Prices for some components are unavailable; the preview will show once they load.</Text>
+      )}
+    </BlockStack>
+  );
+}
@@ -0,0 +1,97 @@
+import { groupAvailability } from './ComponentGroupsEditor';
+import { parseBundleConfig } from '../../../shared/bundle-config.js';
+import { GET_PRODUCTS_INVENTORY, GET_BUNDLE_CONFIGS } from './graphql/queries';
+import type { BundleConfigsQueryResponse } from './graphql/types';
+import type { BundleConfig, BundleProduct, ComponentGroup } from './types';
+
+export type QueryFn = (query: string, options?: { variables?: Record<string, unknown> }) => Promise<unknown>;
+
+/**
+ * The components with their current inventory, tracking and price filled in.
+ * Components the lookup fails for are returned unchanged.
+ */
+export async function fetchInventory(query: QueryFn, products: BundleProduct[]): Promise<BundleProduct[]> {
+  if (products.length === 0) return products;
+
+  try {
+    const productIds = Array.from(new Set(products.map(p => p.productId)));
+
+    const result: any = await query(GET_PRODUCTS_INVENTORY, {
+      variables: { ids: productIds },
+    });
+
+    if (!result?.data?.nodes) return products;
+
+    return products.map(product => {
+      const inventoryData = result.data.nodes.find((n: any) => n?.id === product.productId);
+      if (!inventoryData) return product;
+
+      if (product.variantId) {
+        const variant = inventoryData.variants?.edges
+          ?.map((edge: any) => edge.node)
+          .find((node: any) => node.id === product.variantId);
+
+        if (!variant) return product;
+
+        return {
+          ...product,
+          inventory: variant.inventoryQuantity || 0,
+          tracksInventory: variant.inventoryItem?.tracked || false,
+          price: variant.price !== undefined ? Number(variant.price) : undefined,
+        };
+      }
+
+      // Product components use the product's first variant
+      const firstVariantPrice = inventoryData.variants?.edges?.[0]?.node?.price;
+
+      return {
+        ...product,
+        inventory: inventoryData.totalInventory || 0,
+        tracksInventory: inventoryData.tracksInventory || false,
+        price: firstVariantPrice !== undefined ? Number(firstVariantPrice) : undefined,
+      };
+    });
+  } catch (error) {
+    // Silently fail - inventory is optional
+    return products;
+  }
+}
+
+/**
+ * How many bundles the components' inventory can make. Mix-and-match groups
+ * count at their worst case.
+ */
+export function bundleAvailability(products: BundleProduct[], groups: ComponentGroup[]): number {
+  if (products.length === 0 && groups.length === 0) return 0;
+
+  const availabilities = products.map(product => {
+    if (!product.tracksInventory) return Infinity;
+    if (product.inventory === undefined) return 0;
+    return Math.floor(product.inventory / product.quantity);
+  });
+
+  return Math.min(...availabilities, ...groups.map(groupAvailability));
+}
+
+/**
+ * The bundle configs of the given products, for nesting checks. Products
+ * without a valid config map to null.
+ */
+export async function loadBundleConfigs(query: QueryFn, ids: string[]): Promise<Map<string, BundleConfig | null>> {
+  const result = (await query(GET_BUNDLE_CONFIGS, {
+    variables: { ids },
+  })) as BundleConfigsQueryResponse;
+
+  const configs = new Map<string, BundleConfig | null>(ids.map(id => [id, null]));
+  for (const node of result?.data?.nodes || []) {
+    if (!node?.metafield) continue;
+
+    try {
+      configs.set(node.id, parseBundleConfig(node.metafield.value));
+    } catch (error) {
+      // An invalid nested config is reported when that bundle is opened
+    }
+  }
+
+  return configs;
+}
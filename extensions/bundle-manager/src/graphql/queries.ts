@@ -1,8 +1,19 @@
 export const GET_PRODUCT_METAFIELDS = `
   query GetProductMetafields($productId: ID!) {
+    shop {
+      currencyCode
+    }
     product(id: $productId) {
       id
       title
+      variants(first: 100) {
+        edges {
+          node {
+            id
+            title
+          }
+        }
+      }
       metafield(namespace: "custom", key: "bundle_config") {
         id
         namespace
@@ -14,6 +25,19 @@ export const GET_PRODUCT_METAFIELDS = `
   }
 `;
 
+export const GET_BUNDLE_CONFIGS = `
+  query GetBundleConfigs($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        metafield(namespace: "custom", key: "bundle_config") {
+          value
+        }
+      }
+    }
+  }
+`;
+
 export const SEARCH_PRODUCTS = `
   query SearchProducts($query: String!, $first: Int!) {
     products(first: $first, query: $query) {
@@ -45,6 +69,7 @@ export const GET_PRODUCTS_INVENTORY = `
           edges {
             node {
               id
+              price
               inventoryQuantity
               inventoryItem {
                 id
@@ -57,3 +82,34 @@ export const GET_PRODUCTS_INVENTORY = `
     }
   }
 `;
+
+export const GET_VARIANTS = `
+  query GetVariants($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        title
+        product {
+          id
+          title
+        }
+      }
+    }
+  }
+`;
+
+export const GET_SELECTED_PRODUCTS = `
+  query GetSelectedProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+        totalInventory
+        tracksInventory
+        metafield(namespace: "custom", key: "bundle_config") {
+          value
+        }
+      }
+    }
+  }
+`;
@@ -12,9 +12,20 @@ export interface MetafieldResponse {
 
 export interface ProductMetafieldsQueryResponse {
   data?: {
+    shop?: {
+      currencyCode: string;
+    };
     product?: {
       id: string;
       title: string;
+      variants?: {
+        edges: Array<{
+          node: {
+            id: string;
+            title: string;
+          };
+        }>;
+      };
       metafield: MetafieldResponse | null;
     };
   };
@@ -31,3 +42,37 @@ export interface MetafieldsSetResponse {
     };
   };
 }
+
+export interface VariantsQueryResponse {
+  data?: {
+    nodes?: Array<{
+      id: string;
+      title: string;
+      product: {
+        id: string;
+        title: string;
+      };
+    } | null>;
+  };
+}
+
+export interface BundleConfigsQueryResponse {
+  data?: {
+    nodes?: Array<{
+      id: string;
+      metafield: { value: string } | null;
+    } | null>;
+  };
+}
+
+export interface SelectedProductsQueryResponse {
+  data?: {
+    nodes?: Array<{
+      id: string;
+      title: string;
+      totalInventory: number;
+      tracksInventory: boolean;
+      metafield: { value: string } | null;
+    } | null>;
+  };
+}
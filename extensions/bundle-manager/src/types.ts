@@ -1,14 +1,22 @@
-export interface BundleProduct {
-  productId: string;
-  quantity: number;
-  title?: string;
+import type { BundleProduct as BundleComponent, BundleComponentGroup } from '../../../shared/bundle-config.js';
+
+export type { BundleAlertSettings, BundleConfig, BundleHealthIssue, BundlePricingRule } from '../../../shared/bundle-config.js';
+
+// A saved component plus inventory and price fetched for display; these
+// fields are never written to the metafield
+export interface BundleProduct extends BundleComponent {
   inventory?: number;
   tracksInventory?: boolean;
+  price?: number;
+}
+
+export interface ComponentGroup extends BundleComponentGroup {
+  options: BundleProduct[];
 }
 
-export interface BundleConfig {
-  isBundle: boolean;
-  products: BundleProduct[];
+export interface ProductVariant {
+  id: string;
+  title: string;
 }
 
 export interface Product {
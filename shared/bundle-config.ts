@@ -0,0 +1,712 @@
+/**
+ * Schema for the `custom.bundle_config` product metafield, shared by the
+ * webhook server (web/) and the admin extension (extensions/bundle-manager).
+ *
+ * Every config read from a metafield goes through `parseBundleConfig`, which
+ * migrates older versions and rejects anything that doesn't match the schema
+ * with a `BundleConfigError` listing each problem. Every config written goes
+ * through `serializeBundleConfig`.
+ */
+
+export const BUNDLE_CONFIG_VERSION = 2;
+
+// Bundles can contain other bundles up to this many levels deep
+export const MAX_BUNDLE_DEPTH = 5;
+
+export interface BundleProduct {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  title?: string;
+  variantTitle?: string;
+}
+
+/**
+ * Mix-and-match components: the customer chooses between `min` and `max` of
+ * the options, and the choice arrives as a line item property. An option's
+ * `quantity` is the number of units taken each time it is chosen.
+ */
+export interface BundleComponentGroup {
+  // Stable key, used in the `_bundle_<id>` line item property
+  id: string;
+  name: string;
+  min: number;
+  max: number;
+  // Whether one bundle can take the same option more than once
+  allowRepeats?: boolean;
+  options: BundleProduct[];
+}
+
+/**
+ * How a bundle's price follows its components' prices. Amounts are in the
+ * shop's currency.
+ */
+export type BundlePricingRule =
+  | { type: 'fixed'; price: number }
+  | { type: 'percentage_off'; percent: number }
+  | { type: 'amount_off'; amount: number };
+
+export const PRICING_RULE_TYPES: BundlePricingRule['type'][] = ['fixed', 'percentage_off', 'amount_off'];
+
+/**
+ * When the server alerts about a bundle's stock. Levels are per variant and
+ * location; an alert is sent when a recompute takes a level across a threshold.
+ */
+export interface BundleAlertSettings {
+  // Alert when a level drops to this many bundles or fewer
+  lowStock?: number;
+  // Alert when a level drops to 0 (default: true)
+  outOfStock?: boolean;
+}
+
+/**
+ * A problem with one of the bundle's components, found by the server when the
+ * component product is deleted or archived. Kept in the config until the
+ * component is restored or removed from the bundle.
+ */
+export interface BundleHealthIssue {
+  type: 'missing' | 'archived';
+  productId: string;
+  // Set when only this variant of the product is affected
+  variantId?: string;
+  message: string;
+  detectedAt: string;
+}
+
+export const HEALTH_ISSUE_TYPES: BundleHealthIssue['type'][] = ['missing', 'archived'];
+
+export interface BundleConfig {
+  version: number;
+  isBundle: boolean;
+  // Fixed components, included in every bundle
+  products: BundleProduct[];
+  // Bundle variant ID -> components for that variant, overriding `products`
+  variantComponents?: Record<string, BundleProduct[]>;
+  // Chosen components, on top of the fixed ones
+  groups?: BundleComponentGroup[];
+  // Without a rule the bundle's price is left alone
+  pricing?: BundlePricingRule;
+  alerts?: BundleAlertSettings;
+  // Written by the server; empty when every component is available
+  health?: BundleHealthIssue[];
+}
+
+export interface BundleConfigIssue {
+  // Location of the problem, e.g. `products[2].quantity`
+  path: string;
+  message: string;
+}
+
+export class BundleConfigError extends Error {
+  readonly issues: BundleConfigIssue[];
+
+  constructor(issues: BundleConfigIssue[]) {
+    super(`Invalid bundle config: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'BundleConfigError';
+    this.issues = issues;
+  }
+}
+
+const NESTING_MESSAGES = {
+  cycle: 'Bundle contains itself',
+  depth: `Bundles are nested more than ${MAX_BUNDLE_DEPTH} levels deep`,
+  groups: 'Mix-and-match bundles cannot be nested in other bundles',
+};
+
+/**
+ * A bundle contains itself, directly or through nested bundles, nests too
+ * deeply, or contains a mix-and-match bundle (whose choices can't be known).
+ */
+export class BundleNestingError extends Error {
+  // Product IDs from the outer bundle to the offending component
+  readonly path: string[];
+  readonly reason: keyof typeof NESTING_MESSAGES;
+
+  constructor(reason: keyof typeof NESTING_MESSAGES, path: string[]) {
+    super(`${NESTING_MESSAGES[reason]}: ${path.join(' -> ')}`);
+    this.name = 'BundleNestingError';
+    this.reason = reason;
+    this.path = path;
+  }
+}
+
+export function formatIssue(issue: BundleConfigIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : issue.message;
+}
+
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/\d+$/;
+const GROUP_ID = /^[a-z0-9][a-z0-9_-]*$/;
+const VARIANT_GID = /^gid:\/\/shopify\/ProductVariant\/\d+$/;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// --- Migrations -------------------------------------------------------------
+
+/**
+ * Upgrades a config saved by an older version of the app, one version at a
+ * time. `migrations[n]` turns a version `n` config into version `n + 1`.
+ */
+const migrations: Record<number, (config: Record<string, any>) => Record<string, any>> = {
+  // v0: configs saved before the schema was versioned. The admin extension
+  // used to save its inventory annotations along with each component, and
+  // hand-edited metafields often carry quantities as strings.
+  0: config => {
+    const migrateProducts = (products: unknown) => Array.isArray(products)
+      ? products.map(product => {
+          if (!isObject(product)) return product;
+
+          const { inventory, tracksInventory, ...rest } = product;
+          const quantity = typeof rest.quantity === 'string' && /^\d+$/.test(rest.quantity.trim())
+            ? Number(rest.quantity)
+            : rest.quantity;
+
+          return { ...rest, quantity };
+        })
+      : products;
+
+    const migrated: Record<string, any> = {
+      ...config,
+      version: 1,
+      products: config.products === undefined ? [] : migrateProducts(config.products),
+    };
+
+    if (isObject(config.variantComponents)) {
+      migrated.variantComponents = Object.fromEntries(
+        Object.entries(config.variantComponents).map(([variantId, products]) => [variantId, migrateProducts(products)])
+      );
+    }
+
+    return migrated;
+  },
+  // v1 -> v2: mix-and-match `groups` were added. Version 1 configs have none,
+  // but are bumped so older servers reject configs that may have groups
+  // rather than deducting only their fixed components.
+  1: config => ({ ...config, version: 2 }),
+};
+
+/**
+ * Returns `value` upgraded to BUNDLE_CONFIG_VERSION. Values that aren't
+ * objects, or whose version is unknown, are returned unchanged for the
+ * validator to report.
+ */
+export function migrateBundleConfig(value: unknown): unknown {
+  if (!isObject(value)) return value;
+
+  let config = value;
+  let version = config.version === undefined ? 0 : config.version;
+
+  while (typeof version === 'number' && version < BUNDLE_CONFIG_VERSION && migrations[version]) {
+    config = migrations[version](config);
+    version = config.version;
+  }
+
+  return config;
+}
+
+// --- Validation -------------------------------------------------------------
+
+function validateProducts(value: unknown, path: string, issues: BundleConfigIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  value.forEach((product, index) => {
+    const productPath = `${path}[${index}]`;
+
+    if (!isObject(product)) {
+      issues.push({ path: productPath, message: 'must be an object' });
+      return;
+    }
+
+    if (typeof product.productId !== 'string' || !PRODUCT_GID.test(product.productId)) {
+      issues.push({ path: `${productPath}.productId`, message: 'must be a product GID (gid://shopify/Product/...)' });
+    }
+
+    if (product.variantId !== undefined && (typeof product.variantId !== 'string' || !VARIANT_GID.test(product.variantId))) {
+      issues.push({ path: `${productPath}.variantId`, message: 'must be a variant GID (gid://shopify/ProductVariant/...)' });
+    }
+
+    if (!Number.isInteger(product.quantity) || product.quantity < 1) {
+      issues.push({ path: `${productPath}.quantity`, message: `must be a positive integer (got ${JSON.stringify(product.quantity)})` });
+    }
+
+    for (const field of ['title', 'variantTitle']) {
+      if (product[field] !== undefined && typeof product[field] !== 'string') {
+        issues.push({ path: `${productPath}.${field}`, message: 'must be a string' });
+      }
+    }
+
+    const key = `${product.productId}:${product.variantId || ''}`;
+    if (seen.has(key)) {
+      issues.push({ path: productPath, message: `duplicates an earlier component (${product.variantId || product.productId})` });
+    }
+    seen.add(key);
+  });
+}
+
+/**
+ * Checks a (migrated) config against the current schema. Returns every
+ * problem found; an empty list means the config is valid.
+ */
+export function validateBundleConfig(value: unknown): BundleConfigIssue[] {
+  const issues: BundleConfigIssue[] = [];
+
+  if (!isObject(value)) {
+    issues.push({ path: '', message: 'Bundle config must be a JSON object' });
+    return issues;
+  }
+
+  if (value.version !== BUNDLE_CONFIG_VERSION) {
+    issues.push({
+      path: 'version',
+      message: typeof value.version === 'number' && value.version > BUNDLE_CONFIG_VERSION
+        ? `${value.version} is newer than this app supports (${BUNDLE_CONFIG_VERSION})`
+        : `must be ${BUNDLE_CONFIG_VERSION} (got ${JSON.stringify(value.version)})`,
+    });
+  }
+
+  if (typeof value.isBundle !== 'boolean') {
+    issues.push({ path: 'isBundle', message: 'must be a boolean' });
+  }
+
+  validateProducts(value.products, 'products', issues);
+
+  if (value.variantComponents !== undefined) {
+    if (!isObject(value.variantComponents)) {
+      issues.push({ path: 'variantComponents', message: 'must be an object keyed by variant GID' });
+    } else {
+      for (const [variantId, products] of Object.entries(value.variantComponents)) {
+        if (!VARIANT_GID.test(variantId)) {
+          issues.push({ path: `variantComponents["${variantId}"]`, message: 'key must be a variant GID (gid://shopify/ProductVariant/...)' });
+        }
+        validateProducts(products, `variantComponents["${variantId}"]`, issues);
+      }
+    }
+  }
+
+  if (value.groups !== undefined) {
+    validateGroups(value.groups, issues);
+  }
+
+  if (value.pricing !== undefined) {
+    validatePricing(value.pricing, Array.isArray(value.groups) && value.groups.length > 0, issues);
+  }
+
+  if (value.alerts !== undefined) {
+    validateAlerts(value.alerts, issues);
+  }
+
+  if (value.health !== undefined) {
+    validateHealth(value.health, issues);
+  }
+
+  return issues;
+}
+
+function validateAlerts(value: unknown, issues: BundleConfigIssue[]): void {
+  if (!isObject(value)) {
+    issues.push({ path: 'alerts', message: 'must be an object' });
+    return;
+  }
+
+  if (value.lowStock !== undefined && (!Number.isInteger(value.lowStock) || value.lowStock < 1)) {
+    issues.push({ path: 'alerts.lowStock', message: `must be a positive integer (got ${JSON.stringify(value.lowStock)})` });
+  }
+
+  if (value.outOfStock !== undefined && typeof value.outOfStock !== 'boolean') {
+    issues.push({ path: 'alerts.outOfStock', message: 'must be a boolean' });
+  }
+}
+
+function validateHealth(value: unknown, issues: BundleConfigIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'health', message: 'must be an array' });
+    return;
+  }
+
+  value.forEach((issue, index) => {
+    const path = `health[${index}]`;
+
+    if (!isObject(issue)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    if (!HEALTH_ISSUE_TYPES.includes(issue.type)) {
+      issues.push({ path: `${path}.type`, message: `must be one of ${HEALTH_ISSUE_TYPES.join(', ')} (got ${JSON.stringify(issue.type)})` });
+    }
+
+    if (typeof issue.productId !== 'string' || !PRODUCT_GID.test(issue.productId)) {
+      issues.push({ path: `${path}.productId`, message: 'must be a product GID (gid://shopify/Product/...)' });
+    }
+
+    if (issue.variantId !== undefined && (typeof issue.variantId !== 'string' || !VARIANT_GID.test(issue.variantId))) {
+      issues.push({ path: `${path}.variantId`, message: 'must be a variant GID (gid://shopify/ProductVariant/...)' });
+    }
+
+    for (const field of ['message', 'detectedAt']) {
+      if (typeof issue[field] !== 'string') {
+        issues.push({ path: `${path}.${field}`, message: 'must be a string' });
+      }
+    }
+  });
+}
+
+function validatePricing(value: unknown, hasGroups: boolean, issues: BundleConfigIssue[]): void {
+  if (!isObject(value)) {
+    issues.push({ path: 'pricing', message: 'must be an object' });
+    return;
+  }
+
+  const isAmount = (amount: unknown) => typeof amount === 'number' && Number.isFinite(amount) && amount >= 0;
+
+  switch (value.type) {
+    case 'fixed':
+      if (!isAmount(value.price)) {
+        issues.push({ path: 'pricing.price', message: `must be a non-negative number (got ${JSON.stringify(value.price)})` });
+      }
+      return;
+    case 'percentage_off':
+      if (typeof value.percent !== 'number' || !(value.percent > 0 && value.percent < 100)) {
+        issues.push({ path: 'pricing.percent', message: `must be a number between 0 and 100 (got ${JSON.stringify(value.percent)})` });
+      }
+      break;
+    case 'amount_off':
+      if (!isAmount(value.amount)) {
+        issues.push({ path: 'pricing.amount', message: `must be a non-negative number (got ${JSON.stringify(value.amount)})` });
+      }
+      break;
+    default:
+      issues.push({ path: 'pricing.type', message: `must be one of ${PRICING_RULE_TYPES.join(', ')} (got ${JSON.stringify(value.type)})` });
+      return;
+  }
+
+  // The component sum of a mix-and-match bundle depends on the customer's choice
+  if (hasGroups) {
+    issues.push({ path: 'pricing.type', message: 'must be fixed for bundles with mix-and-match groups' });
+  }
+}
+
+function validateGroups(value: unknown, issues: BundleConfigIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'groups', message: 'must be an array' });
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  value.forEach((group, index) => {
+    const path = `groups[${index}]`;
+
+    if (!isObject(group)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    if (typeof group.id !== 'string' || !GROUP_ID.test(group.id)) {
+      issues.push({ path: `${path}.id`, message: 'must be lowercase letters, digits, "-" or "_"' });
+    } else if (seen.has(group.id)) {
+      issues.push({ path: `${path}.id`, message: `duplicates an earlier group ("${group.id}")` });
+    }
+    seen.add(group.id);
+
+    if (typeof group.name !== 'string' || group.name.trim() === '') {
+      issues.push({ path: `${path}.name`, message: 'must be a non-empty string' });
+    }
+
+    if (!Number.isInteger(group.min) || group.min < 0) {
+      issues.push({ path: `${path}.min`, message: `must be a non-negative integer (got ${JSON.stringify(group.min)})` });
+    }
+
+    if (!Number.isInteger(group.max) || group.max < 1) {
+      issues.push({ path: `${path}.max`, message: `must be a positive integer (got ${JSON.stringify(group.max)})` });
+    } else if (Number.isInteger(group.min) && group.min > group.max) {
+      issues.push({ path: `${path}.min`, message: `must not be greater than max (${group.max})` });
+    }
+
+    if (group.allowRepeats !== undefined && typeof group.allowRepeats !== 'boolean') {
+      issues.push({ path: `${path}.allowRepeats`, message: 'must be a boolean' });
+    }
+
+    validateProducts(group.options, `${path}.options`, issues);
+
+    if (Array.isArray(group.options)) {
+      if (group.options.length === 0) {
+        issues.push({ path: `${path}.options`, message: 'must have at least one option' });
+      } else if (!group.allowRepeats && Number.isInteger(group.max) && group.max > group.options.length) {
+        issues.push({ path: `${path}.max`, message: `cannot exceed the number of options (${group.options.length}) unless allowRepeats is set` });
+      }
+    }
+  });
+}
+
+// Copies only the fields in the schema, dropping UI annotations and unknown keys
+function normalizeProduct(product: BundleProduct): BundleProduct {
+  const normalized: BundleProduct = { productId: product.productId, quantity: product.quantity };
+  if (product.variantId) normalized.variantId = product.variantId;
+  if (product.title !== undefined) normalized.title = product.title;
+  if (product.variantTitle !== undefined) normalized.variantTitle = product.variantTitle;
+  return normalized;
+}
+
+function normalizeConfig(config: BundleConfig): BundleConfig {
+  const normalized: BundleConfig = {
+    version: BUNDLE_CONFIG_VERSION,
+    isBundle: config.isBundle,
+    products: config.products.map(normalizeProduct),
+  };
+
+  if (config.variantComponents && Object.keys(config.variantComponents).length > 0) {
+    normalized.variantComponents = Object.fromEntries(
+      Object.entries(config.variantComponents).map(([variantId, products]) => [variantId, products.map(normalizeProduct)])
+    );
+  }
+
+  if (config.groups && config.groups.length > 0) {
+    normalized.groups = config.groups.map(group => {
+      const normalizedGroup: BundleComponentGroup = {
+        id: group.id,
+        name: group.name,
+        min: group.min,
+        max: group.max,
+        options: group.options.map(normalizeProduct),
+      };
+      if (group.allowRepeats) normalizedGroup.allowRepeats = true;
+      return normalizedGroup;
+    });
+  }
+
+  if (config.pricing) {
+    normalized.pricing = { ...config.pricing };
+  }
+
+  if (config.alerts) {
+    const alerts: BundleAlertSettings = {};
+    if (config.alerts.lowStock !== undefined) alerts.lowStock = config.alerts.lowStock;
+    if (config.alerts.outOfStock === false) alerts.outOfStock = false;
+    if (Object.keys(alerts).length > 0) normalized.alerts = alerts;
+  }
+
+  if (config.health && config.health.length > 0) {
+    normalized.health = config.health.map(issue => {
+      const normalizedIssue: BundleHealthIssue = {
+        type: issue.type,
+        productId: issue.productId,
+        message: issue.message,
+        detectedAt: issue.detectedAt,
+      };
+      if (issue.variantId) normalizedIssue.variantId = issue.variantId;
+      return normalizedIssue;
+    });
+  }
+
+  return normalized;
+}
+
+/**
+ * Parses a metafield value into a current-version config. Throws
+ * BundleConfigError when the JSON is malformed or doesn't match the schema.
+ */
+export function parseBundleConfig(json: string): BundleConfig {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new BundleConfigError([{ path: '', message: `Malformed JSON: ${error instanceof Error ? error.message : String(error)}` }]);
+  }
+
+  const migrated = migrateBundleConfig(value);
+  const issues = validateBundleConfig(migrated);
+  if (issues.length > 0) {
+    throw new BundleConfigError(issues);
+  }
+
+  return normalizeConfig(migrated as BundleConfig);
+}
+
+/**
+ * Validates a config and returns the metafield value to save, stamped with
+ * the current version. Throws BundleConfigError rather than writing a config
+ * the server would reject.
+ */
+export function serializeBundleConfig(config: Omit<BundleConfig, 'version'> & { version?: number }): string {
+  const candidate = { ...config, version: BUNDLE_CONFIG_VERSION };
+  const issues = validateBundleConfig(candidate);
+  if (issues.length > 0) {
+    throw new BundleConfigError(issues);
+  }
+
+  return JSON.stringify(normalizeConfig(candidate));
+}
+
+// --- Nested bundles ---------------------------------------------------------
+
+/**
+ * Components that make up one unit of a bundle variant. Variants listed in
+ * `variantComponents` use their own mapping; all others use `products`.
+ */
+export function getBundleComponents(config: BundleConfig, bundleVariantId?: string | null): BundleProduct[] {
+  if (bundleVariantId && config.variantComponents?.[bundleVariantId]) {
+    return config.variantComponents[bundleVariantId];
+  }
+
+  return config.products || [];
+}
+
+/**
+ * Group options as fixed components, each at the most units a single bundle
+ * can take of it. Availability computed from these holds whatever customers
+ * choose: the worst case is every customer choosing the scarcest option as
+ * often as the group allows.
+ */
+export function getWorstCaseComponents(config: BundleConfig): BundleProduct[] {
+  return (config.groups || []).flatMap(group =>
+    group.options.map(option => ({
+      ...option,
+      quantity: option.quantity * (group.allowRepeats ? group.max : 1),
+    }))
+  );
+}
+
+/** Loads the bundle configs of several products at once; null for products that aren't bundles. */
+export type BundleConfigLoader = (productIds: string[]) => Promise<Map<string, BundleConfig | null>>;
+
+export interface ExpandedComponents {
+  // Leaf components per bundle unit, with quantities multiplied through
+  // every nesting level and repeated components combined
+  components: BundleProduct[];
+  // Configs of the bundles that were expanded along the way
+  nestedBundles: Map<string, BundleConfig>;
+}
+
+/**
+ * Expands components that are themselves bundles into their own components,
+ * recursively, loading each nesting level's configs in one batch. Throws
+ * BundleNestingError when a bundle contains itself or nesting goes deeper
+ * than MAX_BUNDLE_DEPTH.
+ */
+export async function expandBundleComponents(
+  bundleProductId: string,
+  components: BundleProduct[],
+  loadConfigs: BundleConfigLoader
+): Promise<ExpandedComponents> {
+  const leaves = new Map<string, BundleProduct>();
+  const nestedBundles = new Map<string, BundleConfig>();
+  const configs = new Map<string, BundleConfig | null>();
+
+  let frontier = components.map(component => ({ component, path: [bundleProductId] }));
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    for (const { component, path } of frontier) {
+      if (path.includes(component.productId)) {
+        throw new BundleNestingError('cycle', [...path, component.productId]);
+      }
+    }
+
+    const unloaded = Array.from(new Set(frontier.map(({ component }) => component.productId)))
+      .filter(productId => !configs.has(productId));
+    if (unloaded.length > 0) {
+      for (const [productId, config] of await loadConfigs(unloaded)) {
+        configs.set(productId, config);
+      }
+    }
+
+    const next: typeof frontier = [];
+
+    for (const { component, path } of frontier) {
+      const config = configs.get(component.productId);
+      if (config?.isBundle && config.groups && config.groups.length > 0) {
+        throw new BundleNestingError('groups', [...path, component.productId]);
+      }
+
+      const nested = config?.isBundle ? getBundleComponents(config, component.variantId) : [];
+
+      if (!config || nested.length === 0) {
+        const key = `${component.productId}:${component.variantId || ''}`;
+        const existing = leaves.get(key);
+        leaves.set(key, existing ? { ...existing, quantity: existing.quantity + component.quantity } : { ...component });
+        continue;
+      }
+
+      if (depth >= MAX_BUNDLE_DEPTH) {
+        throw new BundleNestingError('depth', [...path, component.productId]);
+      }
+
+      nestedBundles.set(component.productId, config);
+      for (const child of nested) {
+        next.push({
+          component: { ...child, quantity: child.quantity * component.quantity },
+          path: [...path, component.productId],
+        });
+      }
+    }
+
+    frontier = next;
+  }
+
+  return { components: Array.from(leaves.values()), nestedBundles };
+}
+
+// --- Health -----------------------------------------------------------------
+
+/**
+ * The config's health issues that are still about one of its components,
+ * dropping those whose component has since been removed from the bundle.
+ */
+export function currentHealthIssues(config: Omit<BundleConfig, 'version'>): BundleHealthIssue[] {
+  const components = [
+    ...(config.products || []),
+    ...Object.values(config.variantComponents || {}).flat(),
+    ...(config.groups || []).flatMap(group => group.options),
+  ];
+
+  return (config.health || []).filter(issue => components.some(component =>
+    component.productId === issue.productId && (!issue.variantId || component.variantId === issue.variantId)
+  ));
+}
+
+// --- Pricing ----------------------------------------------------------------
+
+export interface BundlePrice {
+  price: number;
+  // The component sum, shown as the "was" price; null when the bundle isn't cheaper
+  compareAtPrice: number | null;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Applies a pricing rule to the sum of one bundle's component prices.
+ * `componentTotal` is null when it isn't known (mix-and-match bundles), in
+ * which case only a fixed price can be computed.
+ */
+export function applyPricingRule(rule: BundlePricingRule, componentTotal: number | null): BundlePrice | null {
+  if (rule.type !== 'fixed' && componentTotal === null) return null;
+
+  const totalCents = componentTotal === null ? null : toCents(componentTotal);
+  let priceCents: number;
+
+  switch (rule.type) {
+    case 'fixed':
+      priceCents = toCents(rule.price);
+      break;
+    case 'percentage_off':
+      priceCents = Math.round((totalCents as number) * (100 - rule.percent) / 100);
+      break;
+    case 'amount_off':
+      priceCents = Math.max(0, (totalCents as number) - toCents(rule.amount));
+      break;
+  }
+
+  return {
+    price: priceCents / 100,
+    compareAtPrice: totalCents !== null && totalCents > priceCents ? totalCents / 100 : null,
+  };
+}
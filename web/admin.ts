@@ -0,0 +1,368 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { processedWebhooks } from './idempotency.js';
+import { jobQueue } from './jobs.js';
+import { shopTokens, isValidShopDomain, getShopClient, ShopNotInstalledError } from './shops.js';
+import { auditLog, auditToCsv } from './audit.js';
+import { enqueueReconcile, reconcileReports } from './reconcile.js';
+import { simulateOrder } from './simulate.js';
+import { needsAttention } from './attention.js';
+import { exportBundles, bundlesToCsv, importBundles } from './bundle-io.js';
+import { createLogger } from './logger.js';
+import type { ProcessedFilter } from './idempotency.js';
+import type { AuditFilter } from './audit.js';
+import type { JobStatus } from './jobs.js';
+import type { BundleFileFormat } from './bundle-io.js';
+
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+// Bundle imports can hold every bundle in a store
+export const BUNDLE_IMPORT_BODY_LIMIT = '10mb';
+const BUNDLE_FILE_FORMATS: BundleFileFormat[] = ['csv', 'json'];
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'dead'];
+
+const log = createLogger('admin');
+
+/**
+ * Guards operational endpoints with `Authorization: Bearer <ADMIN_API_KEY>`.
+ * When no key is configured the endpoints are disabled rather than open.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!ADMIN_API_KEY) {
+    res.status(403).json({ error: 'Admin API is disabled (ADMIN_API_KEY is not set)' });
+    return;
+  }
+
+  const provided = Buffer.from(req.get('Authorization') || '');
+  const expected = Buffer.from(`Bearer ${ADMIN_API_KEY}`);
+
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
+
+function parseFilter(req: Request): ProcessedFilter | null {
+  const filter: ProcessedFilter = {};
+
+  if (typeof req.query.shop === 'string') filter.shop = req.query.shop;
+  if (typeof req.query.topic === 'string') filter.topic = req.query.topic;
+
+  if (typeof req.query.before === 'string') {
+    const before = new Date(req.query.before);
+    if (isNaN(before.getTime())) return null;
+    filter.before = before;
+  }
+
+  return filter;
+}
+
+function parseAuditFilter(req: Request): AuditFilter | string {
+  const filter: AuditFilter = {};
+
+  if (typeof req.query.shop === 'string') filter.shop = req.query.shop;
+  if (typeof req.query.order === 'string') filter.orderId = req.query.order;
+  if (typeof req.query.product === 'string') filter.productId = req.query.product;
+
+  for (const key of ['from', 'to'] as const) {
+    const value = req.query[key];
+    if (typeof value !== 'string') continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return `Invalid "${key}" date`;
+    filter[key] = date;
+  }
+
+  if (typeof req.query.limit === 'string') {
+    const limit = parseInt(req.query.limit);
+    if (!(limit > 0)) return 'Invalid "limit"';
+    filter.limit = limit;
+  }
+
+  return filter;
+}
+
+export const adminRouter = Router();
+
+adminRouter.use(requireAdmin);
+adminRouter.use(express.json());
+
+adminRouter.get('/processed-webhooks', (req: Request, res: Response) => {
+  const filter = parseFilter(req);
+  if (!filter) {
+    res.status(400).json({ error: 'Invalid "before" date' });
+    return;
+  }
+
+  res.json(processedWebhooks.list(filter));
+});
+
+adminRouter.delete('/processed-webhooks', (req: Request, res: Response) => {
+  const filter = parseFilter(req);
+  if (!filter) {
+    res.status(400).json({ error: 'Invalid "before" date' });
+    return;
+  }
+
+  const purged = processedWebhooks.purge(filter);
+  log.info('Purged processed webhook entries', { purged });
+
+  res.json({ purged });
+});
+
+adminRouter.get('/jobs', (req: Request, res: Response) => {
+  const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+  if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+    res.status(400).json({ error: `Invalid status, expected one of: ${JOB_STATUSES.join(', ')}` });
+    return;
+  }
+
+  res.json({ jobs: jobQueue.list(status as JobStatus | undefined) });
+});
+
+adminRouter.get('/jobs/:id', (req: Request, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+
+  res.json({ job });
+});
+
+adminRouter.post('/jobs/:id/retry', (req: Request, res: Response) => {
+  const job = jobQueue.retry(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found or currently running' });
+    return;
+  }
+
+  log.info('Requeued job', { jobId: job.id, topic: job.topic });
+  res.json({ job });
+});
+
+adminRouter.delete('/jobs/:id', (req: Request, res: Response) => {
+  if (!jobQueue.discard(req.params.id)) {
+    res.status(404).json({ error: 'Job not found or currently running' });
+    return;
+  }
+
+  log.info('Discarded job', { jobId: req.params.id });
+  res.json({ discarded: req.params.id });
+});
+
+adminRouter.get('/attention', (req: Request, res: Response) => {
+  const shop = typeof req.query.shop === 'string' ? req.query.shop : undefined;
+  res.json({ records: needsAttention.list(shop, req.query.resolved === 'true') });
+});
+
+adminRouter.post('/attention/:id/resolve', (req: Request, res: Response) => {
+  const record = needsAttention.resolve(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: 'Record not found' });
+    return;
+  }
+
+  log.info('Resolved needs-attention record', { shop: record.shop, key: record.key });
+  res.json({ record });
+});
+
+adminRouter.get('/shops', (req: Request, res: Response) => {
+  res.json({ shops: shopTokens.list() });
+});
+
+// Recomputes bundle prices in the background: the given bundles, or every
+// bundle in the shop
+adminRouter.post('/pricing/sync', (req: Request, res: Response) => {
+  const { shop, productIds } = req.body || {};
+
+  if (typeof shop !== 'string' || !isValidShopDomain(shop)) {
+    res.status(400).json({ error: 'Missing or invalid "shop"' });
+    return;
+  }
+
+  if (productIds !== undefined && (!Array.isArray(productIds) || !productIds.every(id => typeof id === 'string'))) {
+    res.status(400).json({ error: '"productIds" must be an array of product GIDs' });
+    return;
+  }
+
+  const job = jobQueue.enqueue('pricing/sync', shop, { productIds }, null);
+  log.info('Queued price sync', { shop, jobId: job.id });
+
+  res.status(202).json({ job });
+});
+
+adminRouter.get('/bundles/export', async (req: Request, res: Response) => {
+  const shop = req.query.shop;
+  const format = req.query.format || 'json';
+
+  if (typeof shop !== 'string' || !isValidShopDomain(shop)) {
+    res.status(400).json({ error: 'Missing or invalid "shop"' });
+    return;
+  }
+
+  if (!BUNDLE_FILE_FORMATS.includes(format as BundleFileFormat)) {
+    res.status(400).json({ error: `Invalid format, expected one of: ${BUNDLE_FILE_FORMATS.join(', ')}` });
+    return;
+  }
+
+  try {
+    const bundleExport = await exportBundles(getShopClient(shop));
+
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv');
+      res.set('Content-Disposition', 'attachment; filename="bundles.csv"');
+      res.send(bundlesToCsv(bundleExport.bundles));
+      return;
+    }
+
+    res.set('Content-Disposition', 'attachment; filename="bundles.json"');
+    res.json(bundleExport);
+  } catch (error) {
+    if (error instanceof ShopNotInstalledError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    log.error('Bundle export failed', { shop, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// The file is the request body, parsed up to BUNDLE_IMPORT_BODY_LIMIT in
+// app.ts. Without `apply=true` nothing is written and the response previews
+// the changes.
+adminRouter.post('/bundles/import', async (req: Request, res: Response) => {
+  const shop = req.query.shop;
+  const format = req.query.format || (req.is('text/csv') ? 'csv' : 'json');
+
+  if (typeof shop !== 'string' || !isValidShopDomain(shop)) {
+    res.status(400).json({ error: 'Missing or invalid "shop"' });
+    return;
+  }
+
+  if (!BUNDLE_FILE_FORMATS.includes(format as BundleFileFormat)) {
+    res.status(400).json({ error: `Invalid format, expected one of: ${BUNDLE_FILE_FORMATS.join(', ')}` });
+    return;
+  }
+
+  const content = typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? null);
+
+  try {
+    const result = await importBundles(getShopClient(shop), content, format as BundleFileFormat, { apply: req.query.apply === 'true' });
+
+    // New and changed bundles need their levels set
+    const job = result.written > 0 ? enqueueReconcile(shop, 'import', false) : null;
+    if (job) log.info('Queued reconciliation after import', { shop, jobId: job.id, written: result.written });
+
+    res.status(result.errors.length > 0 ? 422 : 200).json({ result, job });
+  } catch (error) {
+    if (error instanceof ShopNotInstalledError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    log.error('Bundle import failed', { shop, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Mounted at /audit, behind the same key as /admin
+export const auditRouter = Router();
+
+auditRouter.use(requireAdmin);
+
+auditRouter.get('/', (req: Request, res: Response) => {
+  const filter = parseAuditFilter(req);
+  if (typeof filter === 'string') {
+    res.status(400).json({ error: filter });
+    return;
+  }
+
+  const entries = auditLog.list(filter);
+
+  if (req.query.format === 'csv') {
+    res.set('Content-Type', 'text/csv');
+    res.set('Content-Disposition', 'attachment; filename="inventory-audit.csv"');
+    res.send(auditToCsv(entries));
+    return;
+  }
+
+  res.json({ entries });
+});
+
+// Mounted at /reconcile, behind the same key as /admin
+export const reconcileRouter = Router();
+
+reconcileRouter.use(requireAdmin);
+reconcileRouter.use(express.json());
+
+// Recomputes every bundle's level from component stock in the background.
+// With `reportOnly` the drift is reported without being corrected.
+reconcileRouter.post('/', (req: Request, res: Response) => {
+  const { shop, reportOnly = false } = req.body || {};
+
+  if (typeof shop !== 'string' || !isValidShopDomain(shop)) {
+    res.status(400).json({ error: 'Missing or invalid "shop"' });
+    return;
+  }
+
+  if (typeof reportOnly !== 'boolean') {
+    res.status(400).json({ error: '"reportOnly" must be a boolean' });
+    return;
+  }
+
+  const job = enqueueReconcile(shop, 'manual', reportOnly);
+  log.info('Queued reconciliation', { shop, jobId: job.id, reportOnly });
+
+  res.status(202).json({ job });
+});
+
+reconcileRouter.get('/reports', (req: Request, res: Response) => {
+  const shop = typeof req.query.shop === 'string' ? req.query.shop : undefined;
+  res.json({ reports: reconcileReports.list(shop) });
+});
+
+reconcileRouter.get('/reports/:id', (req: Request, res: Response) => {
+  const report = reconcileReports.get(req.params.id);
+  if (!report) {
+    res.status(404).json({ error: 'Report not found' });
+    return;
+  }
+
+  res.json({ report });
+});
+
+// Mounted at /simulate, behind the same key as /admin
+export const simulateRouter = Router();
+
+simulateRouter.use(requireAdmin);
+simulateRouter.use(express.json());
+
+// Dry run of the orders/create handler: reads stock and configs but writes nothing
+simulateRouter.post('/', async (req: Request, res: Response) => {
+  const { shop, order } = req.body || {};
+
+  if (typeof shop !== 'string' || !isValidShopDomain(shop)) {
+    res.status(400).json({ error: 'Missing or invalid "shop"' });
+    return;
+  }
+
+  if (!order || typeof order !== 'object' || !Array.isArray(order.line_items)) {
+    res.status(400).json({ error: '"order" must be an orders/create webhook payload' });
+    return;
+  }
+
+  try {
+    res.json({ simulation: await simulateOrder(getShopClient(shop), order) });
+  } catch (error) {
+    if (error instanceof ShopNotInstalledError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    log.error('Simulation failed', { shop, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,298 @@
+import nodemailer from 'nodemailer';
+import type { ShopifyGraphQL } from './graphql.js';
+import { JsonStore } from './store.js';
+import { createLogger } from './logger.js';
+import { alertsSent } from './metrics.js';
+import type { BundleConfig, BundleLevelCorrection } from './types.js';
+
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || '';
+const SMTP_URL = process.env.SMTP_URL || '';
+const ALERT_EMAIL_FROM = process.env.ALERT_EMAIL_FROM || '';
+const ALERT_EMAIL_TO = process.env.ALERT_EMAIL_TO || '';
+const ALERT_DEBOUNCE_MS = Number(process.env.ALERT_DEBOUNCE_MINUTES || 60) * 60 * 1000;
+const ALERT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+const log = createLogger('alerts');
+
+export interface BundleAlert {
+  type: 'low_stock' | 'out_of_stock';
+  shop: string;
+  bundleProductId: string;
+  bundleTitle: string;
+  variantId: string;
+  variantTitle: string;
+  locationId: string;
+  previousLevel: number;
+  level: number;
+  // The level that was crossed: the low-stock threshold, or 0
+  threshold: number;
+  limitingComponent: string;
+  message: string;
+  createdAt: string;
+}
+
+/**
+ * Somewhere alerts are delivered. Throws when delivery fails.
+ */
+export interface AlertSender {
+  readonly name: string;
+  send(alert: BundleAlert): Promise<void>;
+}
+
+/**
+ * POSTs each alert as JSON to ALERT_WEBHOOK_URL.
+ */
+export class WebhookAlertSender implements AlertSender {
+  readonly name = 'webhook';
+
+  constructor(private url: string) {}
+
+  async send(alert: BundleAlert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(ALERT_WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alert webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * The part of a nodemailer transport the email sender uses, so a stub can
+ * stand in for an SMTP server.
+ */
+export interface MailTransport {
+  sendMail(message: { from: string; to: string; subject: string; text: string }): Promise<unknown>;
+}
+
+export class EmailAlertSender implements AlertSender {
+  readonly name = 'email';
+
+  constructor(private transport: MailTransport, private from: string, private to: string) {}
+
+  async send(alert: BundleAlert): Promise<void> {
+    await this.transport.sendMail({
+      from: this.from,
+      to: this.to,
+      subject: `[${alert.shop}] ${alert.type === 'out_of_stock' ? 'Out of stock' : 'Low stock'}: ${alert.bundleTitle}`,
+      text: [
+        alert.message,
+        '',
+        `Bundle: ${alert.bundleTitle} (${alert.bundleProductId})`,
+        `Variant: ${alert.variantTitle}`,
+        `Location: ${alert.locationId}`,
+        `Level: ${alert.previousLevel} -> ${alert.level}`,
+        `Limited by: ${alert.limitingComponent}`,
+      ].join('\n'),
+    });
+  }
+}
+
+function sendersFromEnv(): AlertSender[] {
+  const senders: AlertSender[] = [];
+
+  if (ALERT_WEBHOOK_URL) {
+    senders.push(new WebhookAlertSender(ALERT_WEBHOOK_URL));
+  }
+
+  if (SMTP_URL && ALERT_EMAIL_FROM && ALERT_EMAIL_TO) {
+    senders.push(new EmailAlertSender(nodemailer.createTransport(SMTP_URL), ALERT_EMAIL_FROM, ALERT_EMAIL_TO));
+  } else if (SMTP_URL) {
+    log.warn('SMTP_URL is set without ALERT_EMAIL_FROM and ALERT_EMAIL_TO - email alerts are disabled');
+  }
+
+  return senders;
+}
+
+interface AlertData {
+  // When an alert was last sent, keyed by shop, variant, location and type
+  lastSent: Record<string, string>;
+  // The level each bundle variant was last computed at, keyed by shop, variant and location
+  levels: Record<string, number>;
+}
+
+/**
+ * Sends alerts to every configured sender. An alert for the same variant,
+ * location and type as one sent within ALERT_DEBOUNCE_MINUTES is dropped,
+ * so a level hovering around a threshold doesn't alert on every order. An
+ * alert that no sender delivered doesn't count as sent.
+ */
+export class AlertNotifier {
+  private store = new JsonStore<AlertData>('alerts', { lastSent: {}, levels: {} });
+  // Alerts being sent, so a concurrent recompute doesn't send the same one
+  private sending = new Set<string>();
+
+  constructor(private senders: AlertSender[]) {}
+
+  setSenders(senders: AlertSender[]): void {
+    this.senders = senders;
+  }
+
+  isEnabled(): boolean {
+    return this.senders.length > 0;
+  }
+
+  /**
+   * Returns false when no sender delivered the alert; a debounced alert
+   * counts as delivered.
+   */
+  async notify(alert: BundleAlert): Promise<boolean> {
+    const key = `${alert.shop}|${alert.variantId}|${alert.locationId}|${alert.type}`;
+    const lastSent = this.store.get().lastSent[key];
+
+    if (this.sending.has(key) || (lastSent && Date.now() - Date.parse(lastSent) < ALERT_DEBOUNCE_MS)) {
+      log.info('Alert debounced', { type: alert.type, bundleProductId: alert.bundleProductId, locationId: alert.locationId, lastSent: lastSent || null });
+      alertsSent.inc({ type: alert.type, outcome: 'debounced' });
+      return true;
+    }
+
+    this.sending.add(key);
+    let delivered = 0;
+
+    try {
+      for (const sender of this.senders) {
+        try {
+          await sender.send(alert);
+          delivered++;
+          alertsSent.inc({ type: alert.type, outcome: 'sent' });
+        } catch (error) {
+          log.error('Failed to send alert', { sender: sender.name, type: alert.type, bundleProductId: alert.bundleProductId, error });
+          alertsSent.inc({ type: alert.type, outcome: 'failed' });
+        }
+      }
+
+      if (delivered === 0) {
+        log.error('Alert not delivered by any sender', { type: alert.type, bundleProductId: alert.bundleProductId, locationId: alert.locationId });
+        return false;
+      }
+
+      this.store.update(data => {
+        data.lastSent[key] = alert.createdAt;
+      });
+    } finally {
+      this.sending.delete(key);
+    }
+
+    log.info('Alert sent', { type: alert.type, bundleProductId: alert.bundleProductId, locationId: alert.locationId, message: alert.message });
+    return true;
+  }
+
+  /**
+   * The level a bundle variant was last computed at, or null when it hasn't
+   * been recorded.
+   */
+  lastLevel(shop: string, variantId: string, locationId: string): number | null {
+    return this.store.get().levels[`${shop}|${variantId}|${locationId}`] ?? null;
+  }
+
+  recordLevel(shop: string, variantId: string, locationId: string, level: number): void {
+    if (this.lastLevel(shop, variantId, locationId) === level) return;
+
+    this.store.update(data => {
+      data.levels[`${shop}|${variantId}|${locationId}`] = level;
+    });
+  }
+
+  purge(shop: string): number {
+    return this.store.update(data => {
+      let purged = 0;
+      for (const records of [data.lastSent, data.levels]) {
+        for (const key of Object.keys(records).filter(key => key.startsWith(`${shop}|`))) {
+          delete records[key];
+          purged++;
+        }
+      }
+      return purged;
+    });
+  }
+}
+
+export const alertNotifier = new AlertNotifier(sendersFromEnv());
+
+/**
+ * The alert a level change calls for, if it crossed a threshold: out of
+ * stock when it reached 0, low stock when it dropped to the threshold or
+ * below. Rising levels never alert.
+ */
+function crossedThreshold(config: BundleConfig, before: number, after: number): { type: BundleAlert['type']; threshold: number } | null {
+  if (after >= before) return null;
+
+  if (after === 0) {
+    return config.alerts?.outOfStock === false ? null : { type: 'out_of_stock', threshold: 0 };
+  }
+
+  const lowStock = config.alerts?.lowStock;
+  if (lowStock !== undefined && before > lowStock && after <= lowStock) {
+    return { type: 'low_stock', threshold: lowStock };
+  }
+
+  return null;
+}
+
+/**
+ * Alerts about the bundle levels a recompute just computed, whether or not
+ * they had to be written. Each level is compared with the one the previous
+ * recompute found, since by the time an order is processed Shopify has
+ * usually taken the sold bundles off the level already; the first time, with
+ * the level before this recompute. A level whose alert wasn't delivered isn't
+ * recorded, so the next recompute tries again. Failures are logged: the
+ * levels have already been written.
+ */
+export async function sendBundleAlerts(
+  client: ShopifyGraphQL,
+  bundleProductId: string,
+  config: BundleConfig,
+  levels: BundleLevelCorrection[]
+): Promise<void> {
+  if (!alertNotifier.isEnabled()) return;
+
+  const crossings = [];
+  for (const level of levels) {
+    const previous = alertNotifier.lastLevel(client.shop, level.variantId, level.locationId) ?? level.before;
+    const crossed = crossedThreshold(config, previous, level.after);
+
+    if (crossed) {
+      crossings.push({ level, previous, crossed });
+    } else {
+      alertNotifier.recordLevel(client.shop, level.variantId, level.locationId, level.after);
+    }
+  }
+  if (crossings.length === 0) return;
+
+  try {
+    const bundleTitle = await client.getProductTitle(bundleProductId) || bundleProductId;
+
+    for (const { level, previous, crossed } of crossings) {
+      const { type, threshold } = crossed;
+      const variant = level.variantTitle === 'Default Title' ? bundleTitle : `${bundleTitle} (${level.variantTitle})`;
+
+      const delivered = await alertNotifier.notify({
+        type,
+        shop: client.shop,
+        bundleProductId,
+        bundleTitle,
+        variantId: level.variantId,
+        variantTitle: level.variantTitle,
+        locationId: level.locationId,
+        previousLevel: previous,
+        level: level.after,
+        threshold,
+        limitingComponent: level.limitingComponent,
+        message: type === 'out_of_stock'
+          ? `${variant} is out of stock at ${level.locationId}: not enough ${level.limitingComponent} left`
+          : `${variant} is low on stock at ${level.locationId}: ${level.after} left, limited by ${level.limitingComponent}`,
+        createdAt: new Date().toISOString(),
+      });
+
+      if (delivered) {
+        alertNotifier.recordLevel(client.shop, level.variantId, level.locationId, level.after);
+      }
+    }
+  } catch (error) {
+    log.error('Bundle alerts failed', { bundleProductId, error });
+  }
+}
@@ -0,0 +1,518 @@
+import express, { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { bundleIndex } from './bundle-index.js';
+import { processedWebhooks } from './idempotency.js';
+import { adminRouter, auditRouter, reconcileRouter, simulateRouter, BUNDLE_IMPORT_BODY_LIMIT } from './admin.js';
+import { authRouter, isOAuthConfigured } from './auth.js';
+import { extensionRouter } from './extension-api.js';
+import { getShopClient, shopTokens, listShopDomains, isLegacySingleShopMode } from './shops.js';
+import { jobQueue, PermanentJobError } from './jobs.js';
+import { findCustomerData, redactCustomerData, redactShopData } from './privacy.js';
+import { isDataDirWritable } from './store.js';
+import { createLogger, withLogContext } from './logger.js';
+import { registry, webhooksReceived } from './metrics.js';
+import { OrderLocationResolver, locationGid } from './locations.js';
+import { adjustBundleComponents, BundleDeductionError } from './inventory.js';
+import { BundleSelectionError } from './bundles.js';
+import { BundleNestingError } from '../shared/bundle-config.js';
+import { needsAttention } from './attention.js';
+import { syncBundlePrices, syncParentBundlePrices } from './pricing.js';
+import { refreshComponentProduct, flagDeletedProduct, pruneHealthIssues } from './bundle-health.js';
+import { withAuditContext } from './audit.js';
+import { RECONCILE_TOPIC, reconcileShop, reconcileReports } from './reconcile.js';
+import { skipInvalidConfig } from './graphql.js';
+import { InvalidBundleConfigError } from './errors.js';
+import type { Job } from './jobs.js';
+import type {
+  ShopifyOrder,
+  ShopifyLineItem,
+  ShopifyRefund,
+  ShopifyProduct,
+  ProductDeletePayload,
+  LocationAllocation,
+  CustomersDataRequestPayload,
+  CustomersRedactPayload,
+  ShopRedactPayload,
+  InventoryChange,
+} from './types.js';
+
+/**
+ * The webhook server's routes and job handlers. index.ts checks the
+ * configuration and starts it.
+ */
+export const app = express();
+const log = createLogger('webhook');
+
+// Shopify configuration (from environment)
+// Webhooks from an OAuth app are signed with the app's API secret
+export const SHOPIFY_WEBHOOK_SECRET = process.env.SHOPIFY_WEBHOOK_SECRET || process.env.SHOPIFY_API_SECRET || '';
+
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * Whether `hmac` is the base64 HMAC-SHA256 of the raw body. Anything that
+ * can't be checked (no secret, header or body) fails.
+ */
+function isValidWebhookHmac(rawBody: Buffer | undefined, hmac: string | undefined, secret: string): boolean {
+  if (!secret || !hmac || !rawBody) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+  const provided = Buffer.from(hmac, 'base64');
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+// Keep the raw body for signature verification
+app.use('/webhooks', express.json({
+  verify: (req: Request, res: Response, buf: Buffer) => {
+    (req as RawBodyRequest).rawBody = buf;
+  }
+}));
+
+// Parsed ahead of the default 100kb limit below
+app.use('/admin/bundles/import',
+  express.json({ limit: BUNDLE_IMPORT_BODY_LIMIT }),
+  express.text({ type: ['text/csv', 'text/plain'], limit: BUNDLE_IMPORT_BODY_LIMIT })
+);
+
+app.use(express.json());
+
+// Every request gets a correlation ID, echoed back in X-Correlation-Id and
+// attached to every log line (and job) that follows from it. Registered after
+// the body parsers so the context survives into the route handlers.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const correlationId = req.get('X-Request-Id') || crypto.randomUUID();
+  res.set('X-Correlation-Id', correlationId);
+
+  withLogContext({ correlationId }, next);
+});
+
+// Every webhook route requires a valid signature, checked before anything
+// else looks at the payload
+app.use('/webhooks', (req: Request, res: Response, next: NextFunction) => {
+  if (!isValidWebhookHmac((req as RawBodyRequest).rawBody, req.get('X-Shopify-Hmac-Sha256'), SHOPIFY_WEBHOOK_SECRET)) {
+    const topic = req.get('X-Shopify-Topic') || req.path.slice(1);
+    log.warn('Rejected webhook with a missing or invalid HMAC', { topic, shop: req.get('X-Shopify-Shop-Domain') || null });
+    webhooksReceived.inc({ topic, outcome: 'invalid_signature' });
+    res.status(401).send('Invalid webhook signature');
+    return;
+  }
+
+  next();
+});
+
+// Skip webhooks that were already processed successfully. Shopify keeps the
+// same X-Shopify-Webhook-Id across retries of a delivery.
+const inFlightWebhooks = new Set<string>();
+
+app.use('/webhooks', (req: Request, res: Response, next: NextFunction) => {
+  const webhookId = req.get('X-Shopify-Webhook-Id');
+  const topic = req.get('X-Shopify-Topic') || req.path.slice(1);
+  if (!webhookId) {
+    withLogContext({ topic }, next);
+    return;
+  }
+
+  if (processedWebhooks.hasWebhook(webhookId)) {
+    log.info('Duplicate webhook - already processed', { webhookId, topic });
+    webhooksReceived.inc({ topic, outcome: 'duplicate' });
+    res.status(200).send('OK');
+    return;
+  }
+
+  if (inFlightWebhooks.has(webhookId)) {
+    log.info('Duplicate webhook - still processing', { webhookId, topic });
+    webhooksReceived.inc({ topic, outcome: 'in_flight' });
+    res.status(409).send('Webhook is already being processed');
+    return;
+  }
+
+  inFlightWebhooks.add(webhookId);
+  res.on('close', () => inFlightWebhooks.delete(webhookId));
+  res.on('finish', () => {
+    if (res.statusCode === 200) {
+      processedWebhooks.recordWebhook(webhookId, req.get('X-Shopify-Shop-Domain') || '', req.get('X-Shopify-Topic') || '');
+    }
+  });
+
+  withLogContext({ webhookId, topic }, next);
+});
+
+app.use('/admin', adminRouter);
+app.use('/audit', auditRouter);
+app.use('/reconcile', reconcileRouter);
+app.use('/simulate', simulateRouter);
+app.use('/auth', authRouter);
+app.use('/api', extensionRouter);
+
+/**
+ * Whether the server can take webhooks: state can be persisted, the job
+ * worker is running and there are credentials to process them with.
+ */
+function readinessChecks() {
+  return {
+    dataDir: isDataDirWritable(),
+    jobWorker: jobQueue.isRunning(),
+    webhookSecret: !!SHOPIFY_WEBHOOK_SECRET,
+    credentials: isOAuthConfigured() || listShopDomains().length > 0 || isLegacySingleShopMode(),
+  };
+}
+
+// Health check endpoint: 503 until the server is ready
+app.get('/', (req: Request, res: Response) => {
+  const checks = readinessChecks();
+  const ready = Object.values(checks).every(Boolean);
+
+  res.status(ready ? 200 : 503).json({
+    status: ready ? 'ok' : 'unavailable',
+    checks,
+    jobs: {
+      pending: jobQueue.list('pending').length,
+      dead: jobQueue.list('dead').length,
+    },
+    service: 'Bundle Manager Webhooks',
+    version: '1.0.0',
+    endpoints: [
+      'POST /webhooks/orders/create',
+      'POST /webhooks/orders/cancelled',
+      'POST /webhooks/refunds/create',
+      'POST /webhooks/products/update',
+      'POST /webhooks/products/delete',
+      'POST /webhooks/app/uninstalled',
+      'POST /webhooks/customers/data_request',
+      'POST /webhooks/customers/redact',
+      'POST /webhooks/shop/redact',
+      'GET /auth',
+      'GET /auth/callback',
+      'POST /api/bundles/resync',
+      'GET /metrics'
+    ]
+  });
+});
+
+app.get('/metrics', async (req: Request, res: Response) => {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
+
+/**
+ * Webhooks are persisted to the job queue and acknowledged right away, so
+ * large orders never run into Shopify's 5-second delivery timeout.
+ */
+function enqueueWebhook(topic: string) {
+  return (req: Request, res: Response) => {
+    try {
+      const shop = req.get('X-Shopify-Shop-Domain') || '';
+      const webhookId = req.get('X-Shopify-Webhook-Id') || null;
+
+      const job = jobQueue.enqueue(topic, shop, req.body, webhookId);
+      log.info('Webhook queued', { topic, shop, jobId: job.id });
+      webhooksReceived.inc({ topic, outcome: 'queued' });
+
+      res.status(200).send('OK');
+    } catch (error) {
+      log.error('Error queueing webhook', { topic, error });
+      webhooksReceived.inc({ topic, outcome: 'error' });
+      res.status(500).send('Error processing webhook');
+    }
+  };
+}
+
+app.post('/webhooks/orders/create', enqueueWebhook('orders/create'));
+app.post('/webhooks/orders/cancelled', enqueueWebhook('orders/cancelled'));
+app.post('/webhooks/refunds/create', enqueueWebhook('refunds/create'));
+app.post('/webhooks/products/update', enqueueWebhook('products/update'));
+app.post('/webhooks/products/delete', enqueueWebhook('products/delete'));
+
+// Handled inline rather than queued so credentials are revoked immediately
+app.post('/webhooks/app/uninstalled', (req: Request, res: Response) => {
+  try {
+    const shop = req.get('X-Shopify-Shop-Domain') || '';
+
+    const removed = shopTokens.remove(shop);
+    bundleIndex.clearShop(shop);
+
+    log.info('App uninstalled', { shop, tokenRevoked: removed });
+    webhooksReceived.inc({ topic: 'app/uninstalled', outcome: 'processed' });
+    res.status(200).send('OK');
+  } catch (error) {
+    log.error('Error processing app/uninstalled', { error });
+    webhooksReceived.inc({ topic: 'app/uninstalled', outcome: 'error' });
+    res.status(500).send('Error processing webhook');
+  }
+});
+
+/**
+ * Mandatory privacy webhooks, handled inline since they only touch local
+ * state. Order data is found by the order IDs in the payload.
+ */
+function handlePrivacyWebhook(topic: string, handle: (shop: string, payload: any) => Record<string, unknown>) {
+  return (req: Request, res: Response) => {
+    try {
+      const shop = req.get('X-Shopify-Shop-Domain') || req.body?.shop_domain || '';
+
+      log.info('Privacy request handled', { topic, shop, ...handle(shop, req.body) });
+      webhooksReceived.inc({ topic, outcome: 'processed' });
+      res.status(200).send('OK');
+    } catch (error) {
+      log.error('Error processing privacy webhook', { topic, error });
+      webhooksReceived.inc({ topic, outcome: 'error' });
+      res.status(500).send('Error processing webhook');
+    }
+  };
+}
+
+// We store no customer profile, only order IDs and (until processed) order
+// webhook payloads; the merchant already has all of it in Shopify
+app.post('/webhooks/customers/data_request', handlePrivacyWebhook('customers/data_request', (shop, payload: CustomersDataRequestPayload) => ({
+  dataRequestId: payload.data_request?.id ?? null,
+  stored: findCustomerData(shop, (payload.orders_requested || []).map(String)),
+})));
+
+app.post('/webhooks/customers/redact', handlePrivacyWebhook('customers/redact', (shop, payload: CustomersRedactPayload) => ({
+  redacted: redactCustomerData(shop, (payload.orders_to_redact || []).map(String)),
+})));
+
+app.post('/webhooks/shop/redact', handlePrivacyWebhook('shop/redact', (shop, payload: ShopRedactPayload) => ({
+  shopId: payload.shop_id ?? null,
+  purged: redactShopData(shop),
+})));
+
+jobQueue.register('orders/create', async (job: Job) => {
+  const order: ShopifyOrder = job.payload;
+  const locations = new OrderLocationResolver(getShopClient(job.shop), order);
+
+  await withOrderContext(job.topic, String(order.id), async () => {
+    log.info('Processing order', { orderName: order.name, lineItems: order.line_items.length });
+
+    await forEachLineItem(order.line_items, lineItem =>
+      runOnce(job.shop, `orders/create:${order.id}:${lineItem.id}`, job.webhookId, () =>
+        processLineItem(lineItem, job.shop, locations)
+      )
+    );
+  });
+});
+
+jobQueue.register('orders/cancelled', async (job: Job) => {
+  const order: ShopifyOrder = job.payload;
+  const locations = new OrderLocationResolver(getShopClient(job.shop), order);
+
+  log.info('Order cancelled', { orderId: String(order.id), orderName: order.name, reason: order.cancel_reason || null });
+
+  if (order.restock === false) {
+    log.info('Order was cancelled without restock - skipping', { orderId: String(order.id) });
+    return;
+  }
+
+  // Quantities that were already refunded are handled (or deliberately not
+  // restocked) by the refunds/create webhook
+  const refundedQuantities = new Map<number, number>();
+  for (const refund of order.refunds || []) {
+    for (const refundLineItem of refund.refund_line_items) {
+      const previous = refundedQuantities.get(refundLineItem.line_item_id) || 0;
+      refundedQuantities.set(refundLineItem.line_item_id, previous + refundLineItem.quantity);
+    }
+  }
+
+  await withOrderContext(job.topic, String(order.id), async () => {
+    await forEachLineItem(order.line_items, async lineItem => {
+      const quantity = lineItem.quantity - (refundedQuantities.get(lineItem.id) || 0);
+      if (quantity <= 0) return;
+
+      await runOnce(job.shop, `orders/cancelled:${order.id}:${lineItem.id}`, job.webhookId, async () =>
+        restockLineItem(lineItem, job.shop, await locations.resolve(lineItem, quantity))
+      );
+    });
+  });
+});
+
+jobQueue.register('refunds/create', async (job: Job) => {
+  const refund: ShopifyRefund = job.payload;
+  const locations = new OrderLocationResolver(getShopClient(job.shop), { id: refund.order_id });
+
+  await withOrderContext(job.topic, String(refund.order_id), async () => {
+    log.info('Processing refund', { refundId: refund.id, lineItems: refund.refund_line_items.length });
+
+    await forEachLineItem(refund.refund_line_items, async refundLineItem => {
+      if (refundLineItem.restock_type === 'no_restock' || refundLineItem.quantity <= 0) {
+        log.info('Skipping refund line item', { title: refundLineItem.line_item.title, restockType: refundLineItem.restock_type });
+        return;
+      }
+
+      await runOnce(job.shop, `refunds/create:${refund.id}:${refundLineItem.id}`, job.webhookId, async () => {
+        // Restock where the merchant chose to put the items back
+        const allocations: LocationAllocation[] = refundLineItem.location_id
+          ? [{ locationId: locationGid(refundLineItem.location_id), quantity: refundLineItem.quantity }]
+          : await locations.resolve(refundLineItem.line_item, refundLineItem.quantity);
+
+        await restockLineItem(refundLineItem.line_item, job.shop, allocations);
+      });
+    });
+  });
+});
+
+jobQueue.register('products/update', async (job: Job) => {
+  const product: ShopifyProduct = job.payload;
+  const client = getShopClient(job.shop);
+
+  // Keep the reverse index current when a bundle config is edited
+  const bundleConfig = await client.getBundleConfig(product.admin_graphql_api_id).catch(skipInvalidConfig);
+  bundleIndex.updateBundle(job.shop, product.admin_graphql_api_id, bundleConfig);
+
+  // The update may have changed the pricing rule or a component's price.
+  // Writing a price triggers another products/update, which finds nothing
+  // left to change.
+  if (bundleConfig?.isBundle) {
+    await syncBundlePrices(client, product.admin_graphql_api_id, bundleConfig);
+  }
+  await syncParentBundlePrices(client, product.admin_graphql_api_id);
+
+  // Bundles containing the product pick up its new title and status. Saving
+  // a config triggers a products/update for that bundle, which finds it
+  // already current.
+  if (bundleConfig) {
+    await pruneHealthIssues(client, product.admin_graphql_api_id, bundleConfig);
+  }
+  await refreshComponentProduct(client, product);
+});
+
+jobQueue.register('products/delete', async (job: Job) => {
+  const product: ProductDeletePayload = job.payload;
+
+  await flagDeletedProduct(getShopClient(job.shop), `gid://shopify/Product/${product.id}`);
+});
+
+jobQueue.register('pricing/sync', async (job: Job) => {
+  const client = getShopClient(job.shop);
+  const productIds: string[] = job.payload.productIds
+    || (await client.getBundleProducts()).map(bundle => bundle.productId);
+
+  log.info('Syncing bundle prices', { bundles: productIds.length });
+
+  for (const productId of productIds) {
+    const bundleConfig = await client.getBundleConfig(productId).catch(skipInvalidConfig);
+    if (bundleConfig?.isBundle) {
+      await syncBundlePrices(client, productId, bundleConfig);
+    }
+  }
+}, 'maintenance');
+
+jobQueue.register(RECONCILE_TOPIC, async (job: Job) => {
+  const { trigger, reportOnly, productIds } = job.payload;
+
+  const report = await withAuditContext({ source: job.topic }, () =>
+    reconcileShop(getShopClient(job.shop), job.id, trigger, reportOnly, productIds)
+  );
+  reconcileReports.save(report);
+}, 'maintenance');
+
+/**
+ * Tags the logs and audit entries written by the task with the order, and
+ * writes the line items it processed in one update.
+ */
+function withOrderContext<T>(source: string, orderId: string, task: () => Promise<T>): Promise<T> {
+  return withLogContext({ orderId }, () => withAuditContext({ source, orderId }, () => processedWebhooks.batch(task)));
+}
+
+/**
+ * Runs an inventory change for an order/line-item pair at most once, even
+ * across webhook retries and duplicate deliveries.
+ *
+ * A deduction that failed is recorded as needing attention. When its changes
+ * were reversed it is rethrown so the job is retried; when some could not be
+ * reversed the pair is marked processed instead, since retrying would apply
+ * them twice. A bundle with an invalid config or nesting, or a line item with
+ * invalid mix-and-match choices, changes nothing and is rethrown the same way.
+ */
+export async function runOnce(shop: string, key: string, webhookId: string | null, task: () => Promise<void>): Promise<void> {
+  if (processedWebhooks.hasLineItem(shop, key)) {
+    log.info('Skipping line item - already processed', { key });
+    return;
+  }
+
+  try {
+    await task();
+  } catch (error) {
+    const failure = describeFailure(error);
+    if (!failure) throw error;
+
+    needsAttention.record(shop, key, failure.message, failure.compensated, failure.outstanding);
+    log.error('Line item needs attention', { key, error: failure.message, compensated: failure.compensated });
+
+    if (failure.compensated) throw error;
+  }
+
+  processedWebhooks.recordLineItem(shop, key, webhookId);
+  needsAttention.resolveKey(shop, key);
+}
+
+interface LineItemFailure {
+  message: string;
+  compensated: boolean;
+  outstanding: InventoryChange[];
+  // False when a retry would fail the same way until something is fixed by hand
+  retryable: boolean;
+}
+
+/**
+ * The needs-attention details of a failed line item, or null for failures
+ * that are only retried, e.g. Shopify being unreachable.
+ */
+function describeFailure(error: unknown): LineItemFailure | null {
+  if (error instanceof BundleDeductionError) {
+    return { message: error.message, compensated: error.compensated, outstanding: error.outstanding, retryable: error.retryable };
+  }
+  if (error instanceof InvalidBundleConfigError || error instanceof BundleSelectionError || error instanceof BundleNestingError) {
+    return { message: error.message, compensated: true, outstanding: [], retryable: false };
+  }
+  return null;
+}
+
+/**
+ * Runs `task` for every line item even when some fail, so one bad line never
+ * holds up the rest of the order, then fails the job once. The job is retried
+ * (skipping the lines already processed) unless no failure could succeed on a
+ * retry; then it goes straight to the dead-letter list.
+ */
+async function forEachLineItem<T>(lineItems: T[], task: (lineItem: T) => Promise<void>): Promise<void> {
+  const failures: unknown[] = [];
+
+  for (const lineItem of lineItems) {
+    try {
+      await task(lineItem);
+    } catch (error) {
+      failures.push(error);
+    }
+  }
+
+  if (failures.length === 0) return;
+
+  const retryable = failures.some(error => describeFailure(error)?.retryable ?? true);
+  if (retryable && failures.length === 1) throw failures[0];
+
+  const message = failures.map(error => error instanceof Error ? error.message : String(error)).join('; ');
+  throw retryable
+    ? new Error(`${failures.length} line items failed: ${message}`)
+    : new PermanentJobError(`${failures.length} line item(s) need attention: ${message}`);
+}
+
+async function processLineItem(lineItem: ShopifyLineItem, shop: string, locations: OrderLocationResolver): Promise<void> {
+  log.info('Processing line item', { lineItemId: lineItem.id, title: lineItem.title, quantity: lineItem.quantity });
+
+  const allocations = await locations.resolve(lineItem, lineItem.quantity);
+  await adjustBundleComponents(
+    getShopClient(shop),
+    lineItem,
+    allocations.map(allocation => ({ ...allocation, quantity: -allocation.quantity }))
+  );
+}
+
+async function restockLineItem(lineItem: ShopifyLineItem, shop: string, allocations: LocationAllocation[]): Promise<void> {
+  const quantity = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+  log.info('Restocking line item', { lineItemId: lineItem.id, title: lineItem.title, quantity });
+
+  await adjustBundleComponents(getShopClient(shop), lineItem, allocations);
+}
+
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { JsonStore } from './store.js';
+import type { InventoryChange } from './types.js';
+
+export interface AttentionRecord {
+  id: string;
+  shop: string;
+  // Order/line-item key the change was made under, e.g. `orders/create:<order id>:<line item id>`
+  key: string;
+  orderId: string;
+  error: string;
+  // False when restoring the changes already applied failed too
+  compensated: boolean;
+  // Changes that are still applied and have to be corrected by hand
+  outstanding: InventoryChange[];
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+}
+
+interface AttentionData {
+  // Keyed by shop and line item key
+  records: Record<string, AttentionRecord>;
+}
+
+function storeKey(shop: string, key: string): string {
+  return `${shop}|${key}`;
+}
+
+/**
+ * Orders whose bundle deduction failed partway, kept until a retry goes
+ * through or someone marks them resolved.
+ */
+export class NeedsAttentionStore {
+  private store = new JsonStore<AttentionData>('needs-attention', { records: {} });
+
+  record(shop: string, key: string, error: string, compensated: boolean, outstanding: InventoryChange[]): AttentionRecord {
+    const now = new Date().toISOString();
+    const recordKey = storeKey(shop, key);
+
+    return this.store.update(data => {
+      const existing = data.records[recordKey];
+      data.records[recordKey] = {
+        id: existing?.id || crypto.randomUUID(),
+        shop,
+        key,
+        orderId: key.split(':')[1] || '',
+        error,
+        compensated,
+        outstanding: [...(existing?.outstanding || []), ...outstanding],
+        attempts: (existing?.attempts || 0) + 1,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        resolvedAt: null,
+      };
+      return data.records[recordKey];
+    });
+  }
+
+  /**
+   * Marks the record for a key resolved, e.g. once a retry succeeded. Records
+   * with outstanding changes stay open until resolved by hand.
+   */
+  resolveKey(shop: string, key: string): void {
+    const existing = this.store.get().records[storeKey(shop, key)];
+    if (!existing || existing.resolvedAt || existing.outstanding.length > 0) return;
+
+    this.resolve(existing.id);
+  }
+
+  resolve(id: string): AttentionRecord | null {
+    return this.store.update(data => {
+      const existing = Object.values(data.records).find(record => record.id === id);
+      if (!existing) return null;
+
+      existing.resolvedAt = existing.resolvedAt || new Date().toISOString();
+      existing.updatedAt = existing.resolvedAt;
+      return existing;
+    });
+  }
+
+  /**
+   * Deletes the shop's records, or only those for the given orders.
+   */
+  purge(shop: string, orderIds?: string[]): number {
+    return this.store.update(data => {
+      let purged = 0;
+      for (const [recordKey, record] of Object.entries(data.records)) {
+        if (record.shop === shop && (!orderIds || orderIds.includes(record.orderId))) {
+          delete data.records[recordKey];
+          purged++;
+        }
+      }
+      return purged;
+    });
+  }
+
+  list(shop?: string, includeResolved = false): AttentionRecord[] {
+    return Object.values(this.store.get().records)
+      .filter(record => (!shop || record.shop === shop) && (includeResolved || !record.resolvedAt))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+export const needsAttention = new NeedsAttentionStore();
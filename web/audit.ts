@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { JsonStore } from './store.js';
+import { inventoryChanges } from './metrics.js';
+import { toCsv } from './csv.js';
+
+// Oldest entries are dropped beyond this many
+const AUDIT_MAX_ENTRIES = Number(process.env.AUDIT_MAX_ENTRIES || 10000);
+
+export type AuditOperation = 'adjust' | 'set';
+export type AuditOutcome = 'applied' | 'failed';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  shop: string;
+  // Job topic that made the change, e.g. `orders/create`
+  source: string | null;
+  orderId: string | null;
+  bundleProductId: string | null;
+  // Product (and variant) whose stock changed: a component, or the bundle
+  // itself when its level is synced
+  componentProductId: string | null;
+  componentVariantId: string | null;
+  inventoryItemId: string;
+  locationId: string;
+  operation: AuditOperation;
+  delta: number | null;
+  before: number | null;
+  after: number | null;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditFilter {
+  shop?: string;
+  orderId?: string;
+  // Matches the bundle or the component
+  productId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface AuditedComponent {
+  productId: string;
+  variantId?: string | null;
+}
+
+/**
+ * What the inventory changes made inside `withAuditContext` are for. Nested
+ * contexts add to the outer one.
+ */
+export interface AuditContext {
+  source?: string;
+  orderId?: string;
+  bundleProductId?: string;
+  // Inventory item ID -> the component it belongs to
+  components?: Map<string, AuditedComponent>;
+}
+
+// Requested change, before it is sent
+export interface AuditedChange {
+  inventoryItemId: string;
+  locationId: string;
+  delta?: number;
+  quantity?: number;
+}
+
+// A change as returned in `inventoryAdjustmentGroup.changes`
+export interface AppliedInventoryChange {
+  name: string;
+  delta: number;
+  quantityAfterChange: number | null;
+  item: { id: string };
+  location: { id: string };
+}
+
+interface AuditData {
+  entries: AuditEntry[];
+}
+
+const context = new AsyncLocalStorage<AuditContext>();
+
+export function withAuditContext<T>(additions: AuditContext, task: () => Promise<T>): Promise<T> {
+  return context.run({ ...context.getStore(), ...additions }, task);
+}
+
+/**
+ * Persistent log of every inventory change the app makes, with enough
+ * context (order, bundle, component, levels before and after) to
+ * reconstruct how a count was reached.
+ */
+export class AuditLog {
+  private store = new JsonStore<AuditData>('audit', { entries: [] });
+
+  record(entries: AuditEntry[]): void {
+    if (entries.length === 0) return;
+
+    this.store.update(data => {
+      data.entries.push(...entries);
+      if (data.entries.length > AUDIT_MAX_ENTRIES) {
+        data.entries.splice(0, data.entries.length - AUDIT_MAX_ENTRIES);
+      }
+    });
+  }
+
+  /**
+   * Deletes the shop's entries, or only those for the given orders.
+   */
+  purge(shop: string, orderIds?: string[]): number {
+    return this.store.update(data => {
+      const before = data.entries.length;
+      data.entries = data.entries.filter(entry =>
+        entry.shop !== shop || (orderIds !== undefined && !orderIds.includes(entry.orderId || ''))
+      );
+      return before - data.entries.length;
+    });
+  }
+
+  /** Newest first. */
+  list(filter: AuditFilter = {}): AuditEntry[] {
+    const matching = this.store.get().entries.filter(entry => {
+      if (filter.shop && entry.shop !== filter.shop) return false;
+      if (filter.orderId && entry.orderId !== filter.orderId) return false;
+      if (filter.productId
+        && entry.bundleProductId !== filter.productId
+        && entry.componentProductId !== filter.productId
+        && entry.componentVariantId !== filter.productId) return false;
+      if (filter.from && new Date(entry.timestamp) < filter.from) return false;
+      if (filter.to && new Date(entry.timestamp) > filter.to) return false;
+      return true;
+    });
+
+    matching.reverse();
+    return filter.limit ? matching.slice(0, filter.limit) : matching;
+  }
+}
+
+export const auditLog = new AuditLog();
+
+/**
+ * Runs an inventory mutation and records each requested change with the
+ * current audit context, as applied (with the levels Shopify reports) or as
+ * failed when the mutation throws.
+ */
+export async function auditInventoryChanges(
+  shop: string,
+  operation: AuditOperation,
+  requested: AuditedChange[],
+  task: () => Promise<AppliedInventoryChange[]>
+): Promise<void> {
+  const current = context.getStore() || {};
+
+  const entry = (change: AuditedChange): AuditEntry => {
+    const component = current.components?.get(change.inventoryItemId);
+    return {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      shop,
+      source: current.source || null,
+      orderId: current.orderId || null,
+      bundleProductId: current.bundleProductId || null,
+      componentProductId: component?.productId || null,
+      componentVariantId: component?.variantId || null,
+      inventoryItemId: change.inventoryItemId,
+      locationId: change.locationId,
+      operation,
+      delta: change.delta ?? null,
+      before: null,
+      after: null,
+      outcome: 'applied',
+    };
+  };
+
+  let applied: AppliedInventoryChange[];
+  try {
+    applied = await task();
+  } catch (error) {
+    inventoryChanges.inc({ operation, outcome: 'failed' }, requested.length);
+    auditLog.record(requested.map(change => ({
+      ...entry(change),
+      outcome: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    })));
+    throw error;
+  }
+
+  inventoryChanges.inc({ operation, outcome: 'applied' }, requested.length);
+  auditLog.record(requested.map(change => {
+    const result = applied.find(candidate =>
+      candidate.name === 'available'
+      && candidate.item?.id === change.inventoryItemId
+      && candidate.location?.id === change.locationId
+    );
+
+    // Shopify leaves out changes that didn't move the quantity
+    if (!result || result.quantityAfterChange == null) {
+      return operation === 'set'
+        ? { ...entry(change), delta: 0, before: change.quantity ?? null, after: change.quantity ?? null }
+        : entry(change);
+    }
+
+    return {
+      ...entry(change),
+      delta: result.delta,
+      before: result.quantityAfterChange - result.delta,
+      after: result.quantityAfterChange,
+    };
+  }));
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'timestamp',
+  'shop',
+  'source',
+  'orderId',
+  'bundleProductId',
+  'componentProductId',
+  'componentVariantId',
+  'inventoryItemId',
+  'locationId',
+  'operation',
+  'delta',
+  'before',
+  'after',
+  'outcome',
+  'error',
+];
+
+export function auditToCsv(entries: AuditEntry[]): string {
+  return toCsv(CSV_COLUMNS, entries);
+}
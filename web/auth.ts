@@ -0,0 +1,158 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { shopTokens, isValidShopDomain } from './shops.js';
+import { createLogger } from './logger.js';
+
+const SHOPIFY_API_KEY = process.env.SHOPIFY_API_KEY || '';
+const SHOPIFY_API_SECRET = process.env.SHOPIFY_API_SECRET || '';
+const SHOPIFY_SCOPES = process.env.SHOPIFY_SCOPES ||
+  'write_inventory,read_inventory,read_locations,read_product_listings,write_product_listings,read_products,write_products,read_orders,read_merchant_managed_fulfillment_orders,read_assigned_fulfillment_orders';
+const SHOPIFY_APP_URL = process.env.SHOPIFY_APP_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const SESSION_TOKEN_LEEWAY_S = 5;
+
+const log = createLogger('auth');
+
+// OAuth state nonce -> shop it was issued for
+const pendingStates = new Map<string, { shop: string; expiresAt: number }>();
+
+export function isOAuthConfigured(): boolean {
+  return !!SHOPIFY_API_KEY && !!SHOPIFY_API_SECRET && !!process.env.TOKEN_ENCRYPTION_KEY;
+}
+
+/**
+ * Verifies the `hmac` Shopify adds to OAuth redirects: a hex HMAC-SHA256 of
+ * the remaining query parameters, sorted and joined as a query string.
+ */
+function verifyQueryHmac(query: Request['query']): boolean {
+  const { hmac, ...params } = query;
+  if (typeof hmac !== 'string') return false;
+
+  const message = Object.keys(params)
+    .sort()
+    .map(key => `${key}=${Array.isArray(params[key]) ? (params[key] as string[]).join(',') : params[key]}`)
+    .join('&');
+
+  const expected = crypto.createHmac('sha256', SHOPIFY_API_SECRET).update(message).digest();
+  const provided = Buffer.from(hmac, 'hex');
+
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * The shop a session token from an admin extension (`auth.idToken()`) was
+ * issued for, or null unless it is an unexpired HS256 JWT signed with the
+ * app secret for this app.
+ */
+export function verifySessionToken(token: string): string | null {
+  if (!SHOPIFY_API_KEY || !SHOPIFY_API_SECRET) return null;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', SHOPIFY_API_SECRET).update(`${header}.${payload}`).digest();
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) return null;
+
+  let claims: { aud?: unknown; dest?: unknown; exp?: unknown; nbf?: unknown };
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return null;
+  }
+
+  // Allow for a few seconds of clock skew
+  const now = Date.now() / 1000;
+  if (typeof claims.exp !== 'number' || claims.exp + SESSION_TOKEN_LEEWAY_S < now) return null;
+  if (typeof claims.nbf === 'number' && claims.nbf - SESSION_TOKEN_LEEWAY_S > now) return null;
+  if (claims.aud !== SHOPIFY_API_KEY || typeof claims.dest !== 'string') return null;
+
+  const shop = claims.dest.replace(/^https:\/\//, '');
+  return isValidShopDomain(shop) ? shop : null;
+}
+
+function consumeState(state: string, shop: string): boolean {
+  const now = Date.now();
+  for (const [nonce, pending] of pendingStates) {
+    if (pending.expiresAt < now) pendingStates.delete(nonce);
+  }
+
+  const pending = pendingStates.get(state);
+  pendingStates.delete(state);
+
+  return !!pending && pending.shop === shop;
+}
+
+export const authRouter = Router();
+
+authRouter.get('/', (req: Request, res: Response) => {
+  const shop = typeof req.query.shop === 'string' ? req.query.shop : '';
+
+  if (!isOAuthConfigured()) {
+    res.status(503).send('OAuth is not configured');
+    return;
+  }
+
+  if (!isValidShopDomain(shop)) {
+    res.status(400).send('Missing or invalid shop parameter');
+    return;
+  }
+
+  const state = crypto.randomBytes(16).toString('hex');
+  pendingStates.set(state, { shop, expiresAt: Date.now() + STATE_TTL_MS });
+
+  const authorizeUrl = new URL(`https://${shop}/admin/oauth/authorize`);
+  authorizeUrl.searchParams.set('client_id', SHOPIFY_API_KEY);
+  authorizeUrl.searchParams.set('scope', SHOPIFY_SCOPES);
+  authorizeUrl.searchParams.set('redirect_uri', `${SHOPIFY_APP_URL}/auth/callback`);
+  authorizeUrl.searchParams.set('state', state);
+
+  log.info('Starting install', { shop });
+  res.redirect(authorizeUrl.toString());
+});
+
+authRouter.get('/callback', async (req: Request, res: Response) => {
+  const shop = typeof req.query.shop === 'string' ? req.query.shop : '';
+  const code = typeof req.query.code === 'string' ? req.query.code : '';
+  const state = typeof req.query.state === 'string' ? req.query.state : '';
+
+  if (!isOAuthConfigured()) {
+    res.status(503).send('OAuth is not configured');
+    return;
+  }
+
+  if (!isValidShopDomain(shop) || !code || !verifyQueryHmac(req.query) || !consumeState(state, shop)) {
+    log.warn('Rejected OAuth callback', { shop: shop || null });
+    res.status(400).send('Invalid OAuth callback');
+    return;
+  }
+
+  try {
+    const response = await fetch(`https://${shop}/admin/oauth/access_token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        client_id: SHOPIFY_API_KEY,
+        client_secret: SHOPIFY_API_SECRET,
+        code,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token exchange failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { access_token: accessToken, scope } = await response.json() as { access_token: string; scope: string };
+    shopTokens.save(shop, accessToken, scope);
+
+    log.info('Installed', { shop, scope });
+    res.redirect(`https://${shop}/admin/apps/${SHOPIFY_API_KEY}`);
+  } catch (error) {
+    log.error('Error completing install', { shop, error });
+    res.status(500).send('Error completing installation');
+  }
+});
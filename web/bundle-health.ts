@@ -0,0 +1,158 @@
+import { skipInvalidConfig } from './graphql.js';
+import type { ShopifyGraphQL } from './graphql.js';
+import { bundleIndex } from './bundle-index.js';
+import { componentLabel, getAllComponents } from './bundles.js';
+import { createLogger } from './logger.js';
+import { currentHealthIssues, serializeBundleConfig } from '../shared/bundle-config.js';
+import type { BundleConfig, BundleProduct, BundleHealthIssue, ShopifyProduct } from './types.js';
+
+// What happens to a bundle when one of its components is deleted: `flag`
+// only records a health issue, `draft` also sets the bundle to draft so it
+// can't be sold until the component is replaced
+const MISSING_COMPONENT_ACTION = process.env.MISSING_COMPONENT_ACTION === 'draft' ? 'draft' : 'flag';
+
+const log = createLogger('bundle-health');
+
+function mapComponents(config: BundleConfig, update: (component: BundleProduct) => BundleProduct): BundleConfig {
+  const updated: BundleConfig = { ...config, products: config.products.map(update) };
+
+  if (config.variantComponents) {
+    updated.variantComponents = Object.fromEntries(
+      Object.entries(config.variantComponents).map(([variantId, products]) => [variantId, products.map(update)])
+    );
+  }
+
+  if (config.groups) {
+    updated.groups = config.groups.map(group => ({ ...group, options: group.options.map(update) }));
+  }
+
+  return updated;
+}
+
+/**
+ * The config's existing issue for the same problem, so it keeps the time it
+ * was first seen, or a new one.
+ */
+function healthIssue(config: BundleConfig, issue: Omit<BundleHealthIssue, 'detectedAt'>): BundleHealthIssue {
+  const existing = (config.health || []).find(candidate =>
+    candidate.type === issue.type && candidate.productId === issue.productId && candidate.variantId === issue.variantId
+  );
+
+  return existing || { ...issue, detectedAt: new Date().toISOString() };
+}
+
+function countMissing(config: BundleConfig): number {
+  return (config.health || []).filter(issue => issue.type === 'missing').length;
+}
+
+/**
+ * Applies `update` to every bundle containing the product and saves those
+ * whose config changed. Bundles that gained a `missing` issue are logged and,
+ * when MISSING_COMPONENT_ACTION is `draft`, set to draft.
+ */
+async function updateBundlesContaining(
+  client: ShopifyGraphQL,
+  productId: string,
+  update: (config: BundleConfig) => BundleConfig
+): Promise<void> {
+  for (const bundleProductId of await bundleIndex.getBundlesForComponent(client, client.shop, productId)) {
+    const config = await client.getBundleConfig(bundleProductId).catch(skipInvalidConfig);
+    if (!config) continue;
+
+    const updated = update(config);
+    if (serializeBundleConfig(updated) === serializeBundleConfig(config)) continue;
+
+    await client.setBundleConfig(bundleProductId, updated);
+    bundleIndex.updateBundle(client.shop, bundleProductId, updated);
+    log.info('Updated bundle config', { bundleProductId, componentProductId: productId, issues: (updated.health || []).length });
+
+    if (countMissing(updated) > countMissing(config)) {
+      log.warn('Bundle has missing components', {
+        bundleProductId,
+        issues: (updated.health || []).filter(issue => issue.type === 'missing').map(issue => issue.message),
+        action: MISSING_COMPONENT_ACTION,
+      });
+
+      if (MISSING_COMPONENT_ACTION === 'draft') {
+        await client.setProductStatus(bundleProductId, 'DRAFT');
+      }
+    }
+  }
+}
+
+/**
+ * Brings the bundles containing an updated product up to date: cached titles
+ * are refreshed, an archived product is flagged and variants that no longer
+ * exist are flagged as missing. Issues the update resolves are cleared.
+ */
+export async function refreshComponentProduct(client: ShopifyGraphQL, product: ShopifyProduct): Promise<void> {
+  const productId = product.admin_graphql_api_id;
+  // Without the variant list, variant components can't be checked
+  const variantTitles = product.variants
+    ? new Map(product.variants.map(variant => [variant.admin_graphql_api_id, variant.title]))
+    : null;
+
+  await updateBundlesContaining(client, productId, config => {
+    const updated = mapComponents(config, component => {
+      if (component.productId !== productId) return component;
+
+      const refreshed = { ...component, title: product.title };
+      const variantTitle = component.variantId ? variantTitles?.get(component.variantId) : undefined;
+      if (variantTitle !== undefined) refreshed.variantTitle = variantTitle;
+      return refreshed;
+    });
+
+    const health = (config.health || []).filter(issue => issue.productId !== productId);
+
+    if (product.status === 'archived') {
+      health.push(healthIssue(config, { type: 'archived', productId, message: `${product.title} is archived` }));
+    }
+
+    if (variantTitles) {
+      const deletedVariants = new Map<string, BundleProduct>();
+      for (const component of getAllComponents(updated)) {
+        if (component.productId === productId && component.variantId && !variantTitles.has(component.variantId)) {
+          deletedVariants.set(component.variantId, component);
+        }
+      }
+
+      for (const [variantId, component] of deletedVariants) {
+        health.push(healthIssue(config, { type: 'missing', productId, variantId, message: `${componentLabel(component)} was deleted` }));
+      }
+    }
+
+    return { ...updated, health };
+  });
+}
+
+/**
+ * Flags every bundle containing a deleted product, and drops the product
+ * from the index in case it was a bundle itself.
+ */
+export async function flagDeletedProduct(client: ShopifyGraphQL, productId: string): Promise<void> {
+  bundleIndex.removeBundle(client.shop, productId);
+
+  await updateBundlesContaining(client, productId, config => {
+    const component = getAllComponents(config).find(candidate => candidate.productId === productId);
+    const health = (config.health || []).filter(issue => issue.productId !== productId);
+
+    health.push(healthIssue(config, {
+      type: 'missing',
+      productId,
+      message: `${component?.title || productId} was deleted`,
+    }));
+
+    return { ...config, health };
+  });
+}
+
+/**
+ * Drops issues about components that are no longer in the bundle, e.g.
+ * after the metafield was edited by hand.
+ */
+export async function pruneHealthIssues(client: ShopifyGraphQL, bundleProductId: string, config: BundleConfig): Promise<void> {
+  const health = currentHealthIssues(config);
+  if (health.length === (config.health || []).length) return;
+
+  await client.setBundleConfig(bundleProductId, { ...config, health });
+}
@@ -0,0 +1,121 @@
+import type { ShopifyGraphQL } from './graphql.js';
+import { getAllComponents, hasComponents } from './bundles.js';
+import { createLogger } from './logger.js';
+import type { BundleConfig } from './types.js';
+
+const BUNDLE_INDEX_TTL_MS = Number(process.env.BUNDLE_INDEX_TTL_MINUTES || 60) * 60 * 1000;
+
+const log = createLogger('bundle-index');
+
+interface ShopIndex {
+  builtAt: number;
+  bundleComponents: Map<string, string[]>;
+  componentBundles: Map<string, Set<string>>;
+}
+
+/**
+ * Reverse index from component product ID to the bundle product IDs that
+ * contain it, kept per shop. Built lazily from every product's
+ * `custom.bundle_config` metafield and rebuilt once it is older than
+ * BUNDLE_INDEX_TTL_MINUTES, so missed config updates heal on their own.
+ */
+export class BundleIndex {
+  private shops = new Map<string, ShopIndex>();
+  private builds = new Map<string, Promise<ShopIndex>>();
+
+  async getBundlesForComponent(client: ShopifyGraphQL, shop: string, componentProductId: string): Promise<string[]> {
+    const index = await this.getShopIndex(client, shop);
+    return Array.from(index.componentBundles.get(componentProductId) || []);
+  }
+
+  async rebuild(client: ShopifyGraphQL, shop: string): Promise<void> {
+    this.shops.delete(shop);
+    await this.getShopIndex(client, shop);
+  }
+
+  updateBundle(shop: string, bundleProductId: string, config: BundleConfig | null): void {
+    const index = this.shops.get(shop);
+    // Not built yet: the first lookup will read the current config anyway
+    if (!index) return;
+
+    this.removeFromIndex(index, bundleProductId);
+
+    if (hasComponents(config)) {
+      this.addToIndex(index, bundleProductId, config);
+    }
+  }
+
+  removeBundle(shop: string, bundleProductId: string): void {
+    const index = this.shops.get(shop);
+    if (!index) return;
+
+    this.removeFromIndex(index, bundleProductId);
+  }
+
+  clearShop(shop: string): void {
+    this.shops.delete(shop);
+  }
+
+  private async getShopIndex(client: ShopifyGraphQL, shop: string): Promise<ShopIndex> {
+    const existing = this.shops.get(shop);
+    if (existing && Date.now() - existing.builtAt < BUNDLE_INDEX_TTL_MS) {
+      return existing;
+    }
+
+    // Concurrent lookups share a single build
+    let build = this.builds.get(shop);
+    if (!build) {
+      build = this.build(client).finally(() => this.builds.delete(shop));
+      this.builds.set(shop, build);
+    }
+
+    const index = await build;
+    this.shops.set(shop, index);
+    return index;
+  }
+
+  private async build(client: ShopifyGraphQL): Promise<ShopIndex> {
+    const index: ShopIndex = {
+      builtAt: Date.now(),
+      bundleComponents: new Map(),
+      componentBundles: new Map(),
+    };
+
+    const bundles = await client.getBundleProducts();
+    for (const bundle of bundles) {
+      this.addToIndex(index, bundle.productId, bundle.config);
+    }
+
+    log.info('Indexed bundles', { shop: client.shop, bundles: bundles.length });
+    return index;
+  }
+
+  private addToIndex(index: ShopIndex, bundleProductId: string, config: BundleConfig): void {
+    const componentIds = Array.from(new Set(getAllComponents(config).map(product => product.productId)));
+    index.bundleComponents.set(bundleProductId, componentIds);
+
+    for (const componentId of componentIds) {
+      const bundles = index.componentBundles.get(componentId) || new Set<string>();
+      bundles.add(bundleProductId);
+      index.componentBundles.set(componentId, bundles);
+    }
+  }
+
+  private removeFromIndex(index: ShopIndex, bundleProductId: string): void {
+    const componentIds = index.bundleComponents.get(bundleProductId) || [];
+
+    for (const componentId of componentIds) {
+      const bundles = index.componentBundles.get(componentId);
+      if (!bundles) continue;
+
+      bundles.delete(bundleProductId);
+      if (bundles.size === 0) {
+        index.componentBundles.delete(componentId);
+      }
+    }
+
+    index.bundleComponents.delete(bundleProductId);
+  }
+}
+
+export const bundleIndex = new BundleIndex();
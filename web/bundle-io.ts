@@ -0,0 +1,539 @@
+import type { ShopifyGraphQL } from './graphql.js';
+import { METAFIELDS_SET_BATCH_SIZE } from './graphql.js';
+import { bundleIndex } from './bundle-index.js';
+import { componentLabel } from './bundles.js';
+import { toCsv, parseCsv } from './csv.js';
+import { createLogger } from './logger.js';
+import {
+  BUNDLE_CONFIG_VERSION,
+  parseBundleConfig,
+  serializeBundleConfig,
+  expandBundleComponents,
+  BundleConfigError,
+  BundleNestingError,
+  formatIssue,
+} from '../shared/bundle-config.js';
+import type { BundleConfigIssue } from '../shared/bundle-config.js';
+import type { BundleConfig, BundleProduct, ProductReference } from './types.js';
+
+const log = createLogger('bundle-io');
+
+export type BundleFileFormat = 'csv' | 'json';
+
+export interface ExportedBundle {
+  productId: string;
+  title: string;
+  config: BundleConfig;
+}
+
+export interface BundleExport {
+  shop: string;
+  exportedAt: string;
+  bundles: ExportedBundle[];
+}
+
+/**
+ * One component of one bundle. Rows with a blank `bundle_variant_id` are the
+ * bundle's default components; others map that bundle variant's components.
+ * Components are given by `component_product_id` (and optionally
+ * `component_variant_id`) or by `component_sku`. Titles are for reading only.
+ */
+interface BundleCsvRow {
+  bundle_product_id: string;
+  bundle_title: string;
+  bundle_variant_id: string;
+  component_product_id: string;
+  component_variant_id: string;
+  component_sku: string;
+  component_title: string;
+  quantity: number | string;
+}
+
+const CSV_COLUMNS: Array<keyof BundleCsvRow> = [
+  'bundle_product_id',
+  'bundle_title',
+  'bundle_variant_id',
+  'component_product_id',
+  'component_variant_id',
+  'component_sku',
+  'component_title',
+  'quantity',
+];
+
+export interface BundleImportError {
+  // Where in the file, e.g. `row 12` or `bundles[3].config.products[1]`
+  source: string;
+  message: string;
+}
+
+export interface BundleDiff {
+  productId: string;
+  title: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: string[];
+}
+
+export interface BundleImportResult {
+  applied: boolean;
+  bundles: BundleDiff[];
+  errors: BundleImportError[];
+  written: number;
+}
+
+interface BundleInput {
+  source: string;
+  productId: string;
+  // Unvalidated; components may still be SKUs
+  config: Record<string, any>;
+  // CSV rows replace the fixed and per-variant components only: the bundle's
+  // groups, pricing and alerts are kept
+  merge: boolean;
+}
+
+// --- Export -----------------------------------------------------------------
+
+export async function exportBundles(client: ShopifyGraphQL): Promise<BundleExport> {
+  const bundles = await client.getBundleProducts();
+
+  return {
+    shop: client.shop,
+    exportedAt: new Date().toISOString(),
+    bundles: bundles.map(({ productId, title, config }) => ({ productId, title, config })),
+  };
+}
+
+/**
+ * Fixed and per-variant components, one row each. Mix-and-match groups,
+ * pricing and alerts are only in the JSON export.
+ */
+export function bundlesToCsv(bundles: ExportedBundle[]): string {
+  const rows: BundleCsvRow[] = [];
+
+  for (const bundle of bundles) {
+    const lists: Array<[string, BundleProduct[]]> = [
+      ['', bundle.config.products],
+      ...Object.entries(bundle.config.variantComponents || {}),
+    ];
+
+    for (const [bundleVariantId, components] of lists) {
+      for (const component of components) {
+        rows.push({
+          bundle_product_id: bundle.productId,
+          bundle_title: bundle.title,
+          bundle_variant_id: bundleVariantId,
+          component_product_id: component.productId,
+          component_variant_id: component.variantId || '',
+          component_sku: '',
+          component_title: componentLabel(component),
+          quantity: component.quantity,
+        });
+      }
+    }
+  }
+
+  return toCsv(CSV_COLUMNS, rows);
+}
+
+// --- Parsing ----------------------------------------------------------------
+
+// Where each parsed component came from, for error messages
+const componentSources = new WeakMap<object, string>();
+
+/**
+ * A product or variant GID from a GID or a bare numeric ID.
+ */
+function toGid(type: 'Product' | 'ProductVariant', value: unknown): string | null {
+  if (typeof value === 'number' && Number.isInteger(value)) value = String(value);
+  if (typeof value !== 'string') return null;
+
+  const id = value.trim();
+  if (/^\d+$/.test(id)) return `gid://shopify/${type}/${id}`;
+  return new RegExp(`^gid://shopify/${type}/\\d+$`).test(id) ? id : null;
+}
+
+function parseCsvBundles(content: string, errors: BundleImportError[]): BundleInput[] {
+  const bundles = new Map<string, BundleInput>();
+
+  parseCsv(content).forEach((row, index) => {
+    // The header is row 1
+    const source = `row ${index + 2}`;
+
+    const productId = toGid('Product', row.bundle_product_id);
+    if (!productId) {
+      errors.push({ source, message: `Invalid bundle_product_id "${row.bundle_product_id || ''}"` });
+      return;
+    }
+
+    const component: Record<string, unknown> = {
+      quantity: /^\d+$/.test(row.quantity || '') ? Number(row.quantity) : row.quantity,
+    };
+
+    if (row.component_sku) {
+      component.sku = row.component_sku;
+    } else {
+      component.productId = toGid('Product', row.component_product_id) || row.component_product_id;
+      if (row.component_variant_id) {
+        component.variantId = toGid('ProductVariant', row.component_variant_id) || row.component_variant_id;
+      }
+    }
+
+    if (!component.sku && !component.productId) {
+      errors.push({ source, message: 'Needs a component_product_id or component_sku' });
+      return;
+    }
+
+    componentSources.set(component, source);
+
+    const bundle = bundles.get(productId) || { source, productId, config: { products: [], variantComponents: {} }, merge: true };
+    bundles.set(productId, bundle);
+
+    if (row.bundle_variant_id) {
+      const variantId = toGid('ProductVariant', row.bundle_variant_id) || row.bundle_variant_id;
+      bundle.config.variantComponents[variantId] = [...(bundle.config.variantComponents[variantId] || []), component];
+    } else {
+      bundle.config.products.push(component);
+    }
+  });
+
+  return Array.from(bundles.values());
+}
+
+function parseJsonBundles(content: string, errors: BundleImportError[]): BundleInput[] {
+  let value: any;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    errors.push({ source: 'file', message: `Malformed JSON: ${error instanceof Error ? error.message : String(error)}` });
+    return [];
+  }
+
+  const entries = Array.isArray(value) ? value : value?.bundles;
+  if (!Array.isArray(entries)) {
+    errors.push({ source: 'file', message: 'Expected an export ({ "bundles": [...] }) or an array of bundles' });
+    return [];
+  }
+
+  const bundles: BundleInput[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry: any, index: number) => {
+    const source = `bundles[${index}]`;
+    const productId = toGid('Product', entry?.productId);
+
+    if (!productId) {
+      errors.push({ source: `${source}.productId`, message: `Invalid product ID ${JSON.stringify(entry?.productId)}` });
+      return;
+    }
+
+    if (!entry.config || typeof entry.config !== 'object' || Array.isArray(entry.config)) {
+      errors.push({ source: `${source}.config`, message: 'must be a bundle config object' });
+      return;
+    }
+
+    if (seen.has(productId)) {
+      errors.push({ source, message: `${productId} appears more than once` });
+      return;
+    }
+    seen.add(productId);
+
+    for (const { path, components } of componentLists(entry.config)) {
+      components.forEach((component, componentIndex) => {
+        if (component && typeof component === 'object') {
+          componentSources.set(component, `${source}.config.${path}[${componentIndex}]`);
+        }
+      });
+    }
+
+    bundles.push({ source, productId, config: { ...entry.config }, merge: false });
+  });
+
+  return bundles;
+}
+
+/**
+ * Every component list in an unvalidated config. Lists of the wrong shape
+ * are left for schema validation to report.
+ */
+function componentLists(config: Record<string, any>): Array<{ path: string; components: any[] }> {
+  const lists: Array<{ path: string; components: any[] }> = [];
+
+  if (Array.isArray(config.products)) {
+    lists.push({ path: 'products', components: config.products });
+  }
+
+  if (config.variantComponents && typeof config.variantComponents === 'object') {
+    for (const [variantId, components] of Object.entries(config.variantComponents)) {
+      if (Array.isArray(components)) lists.push({ path: `variantComponents["${variantId}"]`, components });
+    }
+  }
+
+  if (Array.isArray(config.groups)) {
+    config.groups.forEach((group: any, index: number) => {
+      if (Array.isArray(group?.options)) lists.push({ path: `groups[${index}].options`, components: group.options });
+    });
+  }
+
+  return lists;
+}
+
+// --- Resolution -------------------------------------------------------------
+
+/**
+ * Replaces SKUs with product and variant IDs, checks that every bundle,
+ * component product and variant exists, and fills in current titles.
+ * Returns the bundles with a reference that couldn't be resolved.
+ */
+async function resolveReferences(client: ShopifyGraphQL, bundles: BundleInput[], errors: BundleImportError[]): Promise<Set<BundleInput>> {
+  const owners = new Map<Record<string, any>, BundleInput>();
+  for (const bundle of bundles) {
+    for (const { components } of componentLists(bundle.config)) {
+      for (const component of components) {
+        if (component && typeof component === 'object') owners.set(component, bundle);
+      }
+    }
+  }
+
+  const components = Array.from(owners.keys());
+  const unresolved = new Set<BundleInput>();
+  const fail = (component: Record<string, any>, message: string) => {
+    errors.push({ source: componentSources.get(component) || 'component', message });
+    unresolved.add(owners.get(component) as BundleInput);
+  };
+
+  const skus = components.filter(component => typeof component.sku === 'string').map(component => component.sku as string);
+  const skuMatches = skus.length > 0 ? await client.findVariantsBySku(skus) : new Map<string, ProductReference[]>();
+
+  for (const component of components) {
+    if (typeof component.sku !== 'string') continue;
+
+    const matches = skuMatches.get(component.sku) || [];
+    if (matches.length === 1) {
+      component.productId = matches[0].productId;
+      component.variantId = matches[0].variantId;
+    } else {
+      fail(component, matches.length === 0
+        ? `No variant has SKU "${component.sku}"`
+        : `SKU "${component.sku}" matches ${matches.length} variants; use component IDs instead`);
+    }
+    delete component.sku;
+  }
+
+  const ids = [
+    ...bundles.map(bundle => bundle.productId),
+    ...components.flatMap(component => [component.productId, component.variantId]).filter(id => typeof id === 'string'),
+  ];
+  const references = await client.getProductReferences(ids);
+
+  for (const bundle of bundles) {
+    const reference = references.get(bundle.productId);
+    if (!reference || reference.variantId) {
+      errors.push({ source: bundle.source, message: `Bundle product ${bundle.productId} does not exist` });
+      unresolved.add(bundle);
+    }
+  }
+
+  for (const component of components) {
+    if (typeof component.productId !== 'string') continue;
+
+    const product = references.get(component.productId);
+    const variant = typeof component.variantId === 'string' ? references.get(component.variantId) : undefined;
+
+    if (!product || product.variantId) {
+      fail(component, `Product ${component.productId} does not exist`);
+    } else if (component.variantId && (!variant || variant.productId !== component.productId)) {
+      fail(component, `Variant ${component.variantId} does not exist or belongs to another product`);
+    } else {
+      component.title = product.title;
+      if (variant) component.variantTitle = variant.variantTitle;
+    }
+  }
+
+  return unresolved;
+}
+
+// --- Diff -------------------------------------------------------------------
+
+function componentKey(component: BundleProduct): string {
+  return `${component.productId}:${component.variantId || ''}`;
+}
+
+function diffComponents(prefix: string, before: BundleProduct[], after: BundleProduct[]): string[] {
+  const changes: string[] = [];
+  const previous = new Map(before.map(component => [componentKey(component), component]));
+  const next = new Map(after.map(component => [componentKey(component), component]));
+
+  for (const [key, component] of next) {
+    const existing = previous.get(key);
+    if (!existing) {
+      changes.push(`${prefix}+ ${componentLabel(component)} × ${component.quantity}`);
+    } else if (existing.quantity !== component.quantity) {
+      changes.push(`${prefix}~ ${componentLabel(component)} × ${existing.quantity} → ${component.quantity}`);
+    }
+  }
+
+  for (const [key, component] of previous) {
+    if (!next.has(key)) changes.push(`${prefix}- ${componentLabel(component)} × ${component.quantity}`);
+  }
+
+  return changes;
+}
+
+/**
+ * Human-readable changes from `before` to `after`, e.g.
+ * `+ Mug (Red) × 2` or `variant 123: ~ Tea × 1 → 2`.
+ */
+export function diffBundleConfigs(before: BundleConfig | null, after: BundleConfig): string[] {
+  const current = before || { version: BUNDLE_CONFIG_VERSION, isBundle: false, products: [] };
+  const changes: string[] = [];
+
+  if (current.isBundle !== after.isBundle) {
+    changes.push(after.isBundle ? 'marked as a bundle' : 'no longer a bundle');
+  }
+
+  changes.push(...diffComponents('', current.products, after.products));
+
+  const variantIds = new Set([...Object.keys(current.variantComponents || {}), ...Object.keys(after.variantComponents || {})]);
+  for (const variantId of variantIds) {
+    changes.push(...diffComponents(
+      `variant ${variantId.split('/').pop()}: `,
+      current.variantComponents?.[variantId] || [],
+      after.variantComponents?.[variantId] || []
+    ));
+  }
+
+  for (const [field, label] of [['groups', 'mix-and-match groups'], ['pricing', 'pricing rule'], ['alerts', 'stock alerts']] as const) {
+    if (JSON.stringify(current[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes.push(`${label} changed`);
+    }
+  }
+
+  if (changes.length === 0 && before && serializeBundleConfig(before) !== serializeBundleConfig(after)) {
+    changes.push('component titles updated');
+  }
+
+  return changes;
+}
+
+// --- Import -----------------------------------------------------------------
+
+/**
+ * The row or JSON path of the component a schema issue is about, falling
+ * back to the bundle's own.
+ */
+function issueSource(input: BundleInput, candidate: Record<string, any>, issue: BundleConfigIssue): string {
+  for (const { path, components } of componentLists(candidate)) {
+    const index = components.findIndex((_, i) => issue.path === `${path}[${i}]` || issue.path.startsWith(`${path}[${i}].`));
+    const source = index >= 0 ? componentSources.get(components[index]) : undefined;
+    if (source) return source;
+  }
+
+  return input.source;
+}
+
+/**
+ * Validates a CSV or JSON file of bundle definitions against the shop and
+ * returns the changes it would make. With `apply`, and only when the whole
+ * file is valid, changed configs are written METAFIELDS_SET_BATCH_SIZE at a
+ * time. Bundle levels aren't touched; reconcile afterwards to set them.
+ */
+export async function importBundles(
+  client: ShopifyGraphQL,
+  content: string,
+  format: BundleFileFormat,
+  { apply = false }: { apply?: boolean } = {}
+): Promise<BundleImportResult> {
+  const errors: BundleImportError[] = [];
+  const result: BundleImportResult = { applied: false, bundles: [], errors, written: 0 };
+
+  const inputs = format === 'csv' ? parseCsvBundles(content, errors) : parseJsonBundles(content, errors);
+  if (inputs.length === 0) {
+    if (errors.length === 0) errors.push({ source: 'file', message: 'No bundles found' });
+    return result;
+  }
+
+  const unresolved = await resolveReferences(client, inputs, errors);
+
+  const currentConfigs = await client.getBundleConfigs(inputs.map(input => input.productId));
+  const titles = await client.getProductReferences(inputs.map(input => input.productId));
+  const planned = new Map<string, BundleConfig>();
+
+  for (const input of inputs) {
+    // Its reference errors already explain why it can't be imported
+    if (unresolved.has(input)) continue;
+
+    const current = currentConfigs.get(input.productId) || null;
+    const candidate = input.merge
+      ? { ...current, ...input.config, version: BUNDLE_CONFIG_VERSION, isBundle: true }
+      : input.config;
+
+    try {
+      planned.set(input.productId, parseBundleConfig(JSON.stringify(candidate)));
+    } catch (error) {
+      if (!(error instanceof BundleConfigError)) throw error;
+      errors.push(...error.issues.map(issue => ({ source: issueSource(input, candidate, issue), message: formatIssue(issue) })));
+    }
+  }
+
+  // Nesting is checked against the configs as they would be after the import
+  const loadConfigs = async (productIds: string[]) => {
+    const configs = await client.getBundleConfigs(productIds.filter(productId => !planned.has(productId)));
+    for (const productId of productIds) {
+      if (planned.has(productId)) configs.set(productId, planned.get(productId) as BundleConfig);
+    }
+    return configs;
+  };
+
+  for (const [productId, config] of planned) {
+    const lists = [config.products, ...Object.values(config.variantComponents || {}), ...(config.groups || []).map(group => group.options)];
+    try {
+      for (const components of lists) {
+        await expandBundleComponents(productId, components, loadConfigs);
+      }
+    } catch (error) {
+      if (!(error instanceof BundleNestingError)) throw error;
+      errors.push({ source: inputs.find(input => input.productId === productId)?.source || productId, message: error.message });
+    }
+  }
+
+  const changed: Array<{ productId: string; config: BundleConfig }> = [];
+
+  for (const [productId, config] of planned) {
+    const current = currentConfigs.get(productId) || null;
+    const unchanged = current !== null && serializeBundleConfig(current) === serializeBundleConfig(config);
+
+    result.bundles.push({
+      productId,
+      title: titles.get(productId)?.title || productId,
+      action: unchanged ? 'unchanged' : current ? 'update' : 'create',
+      changes: unchanged ? [] : diffBundleConfigs(current, config),
+    });
+
+    if (!unchanged) changed.push({ productId, config });
+  }
+
+  if (!apply || errors.length > 0) return result;
+
+  result.applied = true;
+
+  for (let i = 0; i < changed.length; i += METAFIELDS_SET_BATCH_SIZE) {
+    const batch = changed.slice(i, i + METAFIELDS_SET_BATCH_SIZE);
+
+    try {
+      await client.setBundleConfigs(batch);
+      result.written += batch.length;
+
+      for (const { productId, config } of batch) {
+        bundleIndex.updateBundle(client.shop, productId, config);
+      }
+    } catch (error) {
+      log.error('Failed to write bundle configs', { bundles: batch.map(bundle => bundle.productId), error });
+      errors.push(...batch.map(({ productId }) => ({
+        source: productId,
+        message: `Not saved: ${error instanceof Error ? error.message : String(error)}`,
+      })));
+    }
+  }
+
+  log.info('Imported bundles', { written: result.written, failed: changed.length - result.written });
+  return result;
+}
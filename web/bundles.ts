@@ -0,0 +1,92 @@
+import type { BundleConfig, BundleProduct, BundleComponentGroup, ShopifyLineItem } from './types.js';
+
+export { getBundleComponents, getWorstCaseComponents } from '../shared/bundle-config.js';
+
+// A mix-and-match choice arrives as `_bundle_<group id>`: a comma-separated
+// list of the chosen options' variant (or product) IDs, repeated to choose an
+// option more than once
+export const SELECTION_PROPERTY_PREFIX = '_bundle_';
+
+/** A line item's mix-and-match choice doesn't satisfy the bundle's groups. */
+export class BundleSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleSelectionError';
+  }
+}
+
+/**
+ * Every component referenced anywhere in the config, across all variant mappings.
+ */
+export function getAllComponents(config: BundleConfig): BundleProduct[] {
+  return [
+    ...(config.products || []),
+    ...Object.values(config.variantComponents || {}).flat(),
+    ...(config.groups || []).flatMap(group => group.options),
+  ];
+}
+
+// Accepts a full GID or just the numeric ID
+function matchesOption(option: BundleProduct, pick: string): boolean {
+  const id = option.variantId || option.productId;
+  return pick === id || pick === id.split('/').pop();
+}
+
+function selectionRange(group: BundleComponentGroup): string {
+  return group.min === group.max ? `${group.min}` : `${group.min}-${group.max}`;
+}
+
+/**
+ * Components chosen for one bundle unit from each mix-and-match group, read
+ * from the line item's `_bundle_<group id>` properties. Throws
+ * BundleSelectionError when a choice is missing, unknown or out of range.
+ */
+export function getSelectedComponents(config: BundleConfig, lineItem: ShopifyLineItem): BundleProduct[] {
+  const groups = config.groups || [];
+  if (groups.length === 0) return [];
+
+  const properties = new Map((lineItem.properties || []).map(property => [property.name, String(property.value ?? '')]));
+  const selected: BundleProduct[] = [];
+
+  for (const group of groups) {
+    const picks = (properties.get(`${SELECTION_PROPERTY_PREFIX}${group.id}`) || '')
+      .split(',')
+      .map(pick => pick.trim())
+      .filter(Boolean);
+
+    if (picks.length < group.min || picks.length > group.max) {
+      throw new BundleSelectionError(
+        `${group.name}: expected ${selectionRange(group)} selection(s) in "${SELECTION_PROPERTY_PREFIX}${group.id}", got ${picks.length}`
+      );
+    }
+
+    const counts = new Map<BundleProduct, number>();
+    for (const pick of picks) {
+      const option = group.options.find(candidate => matchesOption(candidate, pick));
+      if (!option) {
+        throw new BundleSelectionError(`${group.name}: "${pick}" is not one of the options`);
+      }
+
+      counts.set(option, (counts.get(option) || 0) + 1);
+    }
+
+    for (const [option, count] of counts) {
+      if (count > 1 && !group.allowRepeats) {
+        throw new BundleSelectionError(`${group.name}: ${componentLabel(option)} was chosen ${count} times`);
+      }
+
+      selected.push({ ...option, quantity: option.quantity * count });
+    }
+  }
+
+  return selected;
+}
+
+export function hasComponents(config: BundleConfig | null): config is BundleConfig {
+  return !!config?.isBundle && getAllComponents(config).length > 0;
+}
+
+export function componentLabel(component: BundleProduct): string {
+  const title = component.title || component.productId;
+  return component.variantTitle ? `${title} (${component.variantTitle})` : title;
+}
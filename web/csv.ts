@@ -0,0 +1,67 @@
+export function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: Array<keyof T & string>, rows: T[]): string {
+  const lines = rows.map(row => columns.map(column => csvValue(row[column])).join(','));
+  return [columns.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Parses RFC 4180 CSV into one object per row, keyed by the header row's
+ * (trimmed) column names. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonBlank = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  const [header = [], ...records] = nonBlank;
+  const columns = header.map(column => column.trim());
+
+  return records.map(cells => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()])));
+}
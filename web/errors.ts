@@ -0,0 +1,105 @@
+import { BundleConfigError, formatIssue } from '../shared/bundle-config.js';
+
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: {
+    code?: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface UserErrorDetail {
+  field?: string[] | null;
+  message: string;
+}
+
+/**
+ * Base class for failures talking to the Shopify Admin API. `retryable`
+ * tells the client (and callers) whether the same request may succeed later.
+ */
+export class ShopifyApiError extends Error {
+  readonly shop: string;
+  readonly retryable: boolean;
+
+  constructor(message: string, shop: string, retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+    this.shop = shop;
+    this.retryable = retryable;
+  }
+}
+
+/** The request never got a response (DNS, connection reset, timeout). */
+export class ShopifyNetworkError extends ShopifyApiError {
+  readonly cause: unknown;
+
+  constructor(shop: string, cause: unknown) {
+    super(`Network error calling ${shop}: ${cause instanceof Error ? cause.message : String(cause)}`, shop, true);
+    this.cause = cause;
+  }
+}
+
+/** Non-2xx HTTP response. 5xx responses are retryable. */
+export class ShopifyHttpError extends ShopifyApiError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(shop: string, status: number, statusText: string, body: string) {
+    super(`GraphQL request failed: ${status} ${statusText}`, shop, status >= 500);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** The response carried a top-level `errors` array. */
+export class ShopifyGraphQLError extends ShopifyApiError {
+  readonly errors: GraphQLErrorDetail[];
+
+  constructor(shop: string, errors: GraphQLErrorDetail[], retryable = false) {
+    super(`GraphQL errors: ${errors.map(e => e.message).join('; ')}`, shop, retryable);
+    this.errors = errors;
+  }
+}
+
+/** HTTP 429 or a `THROTTLED` GraphQL error; `retryAfterMs` is when budget should be available again. */
+export class ShopifyThrottledError extends ShopifyGraphQLError {
+  readonly retryAfterMs: number;
+
+  constructor(shop: string, retryAfterMs: number, errors: GraphQLErrorDetail[] = [{ message: 'Throttled' }]) {
+    super(shop, errors, true);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** A mutation returned `userErrors`; nothing was changed. */
+export class ShopifyUserError extends ShopifyApiError {
+  readonly operation: string;
+  readonly userErrors: UserErrorDetail[];
+
+  constructor(shop: string, operation: string, userErrors: UserErrorDetail[]) {
+    super(`${operation} failed: ${userErrors.map(e => e.message).join('; ')}`, shop, false);
+    this.operation = operation;
+    this.userErrors = userErrors;
+  }
+}
+
+/**
+ * A product's bundle config is present but fails validation or can't be
+ * migrated. Unlike a product without a config, it can't be sold as a plain
+ * product: its components would go undeducted.
+ */
+export class InvalidBundleConfigError extends Error {
+  readonly productId: string;
+  readonly cause: unknown;
+
+  constructor(productId: string, cause: unknown) {
+    const detail = cause instanceof BundleConfigError
+      ? cause.issues.map(formatIssue).join('; ')
+      : cause instanceof Error ? cause.message : String(cause);
+    super(`Invalid bundle config on ${productId}: ${detail}`);
+    this.name = new.target.name;
+    this.productId = productId;
+    this.cause = cause;
+  }
+}
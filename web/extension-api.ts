@@ -0,0 +1,62 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { verifySessionToken } from './auth.js';
+import { shopTokens } from './shops.js';
+import { enqueueReconcile } from './reconcile.js';
+import { createLogger, withLogContext } from './logger.js';
+
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/\d+$/;
+// The most products the admin lets merchants select for a bulk action
+const MAX_SELECTED_PRODUCTS = 250;
+
+const log = createLogger('extension-api');
+
+/**
+ * Endpoints the admin extensions call, authenticated with the session token
+ * Shopify issues to the extension rather than ADMIN_API_KEY. Extensions run
+ * on Shopify's CDN, so these answer cross-origin requests.
+ */
+export const extensionRouter = Router();
+
+extensionRouter.use((req: Request, res: Response, next: NextFunction) => {
+  res.set('Access-Control-Allow-Origin', '*');
+  res.set('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end();
+    return;
+  }
+
+  const authorization = req.get('Authorization') || '';
+  const shop = authorization.startsWith('Bearer ') ? verifySessionToken(authorization.slice('Bearer '.length)) : null;
+
+  if (!shop) {
+    res.status(401).json({ error: 'Missing or invalid session token' });
+    return;
+  }
+
+  if (!shopTokens.getAccessToken(shop)) {
+    res.status(404).json({ error: `Shop ${shop} is not installed` });
+    return;
+  }
+
+  res.locals.shop = shop;
+  withLogContext({ shop }, next);
+});
+
+// Recomputes the given bundles' levels from component stock in the background
+extensionRouter.post('/bundles/resync', (req: Request, res: Response) => {
+  const shop: string = res.locals.shop;
+  const { productIds } = req.body || {};
+
+  if (!Array.isArray(productIds) || productIds.length === 0 || productIds.length > MAX_SELECTED_PRODUCTS
+    || !productIds.every(productId => typeof productId === 'string' && PRODUCT_GID.test(productId))) {
+    res.status(400).json({ error: `"productIds" must be 1 to ${MAX_SELECTED_PRODUCTS} product GIDs` });
+    return;
+  }
+
+  const job = enqueueReconcile(shop, 'resync', false, productIds);
+  log.info('Queued bundle resync', { jobId: job.id, bundles: productIds.length });
+
+  res.status(202).json({ job });
+});
@@ -1,4 +1,32 @@
-import type { BundleConfig, ProductQueryResponse, InventoryAdjustmentResponse } from './types.js';
+import type {
+  BundleConfig,
+  BundleProductConfig,
+  ProductQueryResponse,
+  BundleProductsQueryResponse,
+  FulfillmentLocationAssignment,
+  ProductVariantInventory,
+  ResolvedInventoryItem,
+  InventoryChange,
+  InventoryQuantity,
+  InventoryAdjustmentResponse,
+  VariantPriceUpdate,
+  ProductReference,
+} from './types.js';
+import { inventoryLocks } from './locks.js';
+import { auditInventoryChanges } from './audit.js';
+import { createLogger } from './logger.js';
+import { graphqlRequests, graphqlDuration, graphqlThrottles, operationName } from './metrics.js';
+import { parseBundleConfig, serializeBundleConfig, BundleConfigError, formatIssue } from '../shared/bundle-config.js';
+import {
+  ShopifyApiError,
+  ShopifyNetworkError,
+  ShopifyHttpError,
+  ShopifyGraphQLError,
+  ShopifyThrottledError,
+  ShopifyUserError,
+  InvalidBundleConfigError,
+} from './errors.js';
+import type { GraphQLErrorDetail, UserErrorDetail } from './errors.js';
 
 export const GET_BUNDLE_CONFIG = `
   query GetBundleConfig($productId: ID!) {
@@ -16,15 +44,54 @@ export const GET_BUNDLE_CONFIG = `
   }
 `;
 
-export const GET_INVENTORY_ITEM = `
-  query GetInventoryItem($productId: ID!) {
+export const GET_BUNDLE_PRODUCTS = `
+  query GetBundleProducts($cursor: String) {
+    products(first: 100, after: $cursor) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node {
+          id
+          title
+          metafield(namespace: "custom", key: "bundle_config") {
+            id
+            namespace
+            key
+            value
+            type
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_BUNDLE_CONFIGS = `
+  query GetBundleConfigs($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        metafield(namespace: "custom", key: "bundle_config") {
+          value
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRODUCT_VARIANTS = `
+  query GetProductVariants($productId: ID!) {
     product(id: $productId) {
       id
-      title
-      variants(first: 1) {
+      variants(first: 100) {
         edges {
           node {
             id
+            title
+            price
+            compareAtPrice
             inventoryItem {
               id
             }
@@ -35,29 +102,93 @@ export const GET_INVENTORY_ITEM = `
   }
 `;
 
-export const GET_INVENTORY_LEVEL = `
-  query GetInventoryLevel($inventoryItemId: ID!, $locationId: ID!) {
-    inventoryItem(id: $inventoryItemId) {
-      id
-      inventoryLevel(locationId: $locationId) {
+// Resolves inventory items and their levels for products (first variant) and
+// variants in one round trip
+export const GET_INVENTORY_NODES = `
+  query GetInventoryNodes($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        variants(first: 1) {
+          edges {
+            node {
+              id
+              inventoryItem {
+                ...InventoryItemLevels
+              }
+            }
+          }
+        }
+      }
+      ... on ProductVariant {
         id
-        available
+        inventoryItem {
+          ...InventoryItemLevels
+        }
+      }
+    }
+  }
+
+  fragment InventoryItemLevels on InventoryItem {
+    id
+    tracked
+    inventoryLevels(first: 25) {
+      edges {
+        node {
+          location {
+            id
+          }
+          quantities(names: ["available"]) {
+            name
+            quantity
+          }
+        }
       }
     }
   }
 `;
 
-export const SET_INVENTORY = `
-  mutation SetInventory($inventoryItemId: ID!, $locationId: ID!, $quantity: Int!) {
+export const GET_ORDER_FULFILLMENT_LOCATIONS = `
+  query GetOrderFulfillmentLocations($orderId: ID!) {
+    order(id: $orderId) {
+      id
+      fulfillmentOrders(first: 50) {
+        nodes {
+          id
+          assignedLocation {
+            location {
+              id
+            }
+          }
+          lineItems(first: 250) {
+            nodes {
+              totalQuantity
+              lineItem {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRIMARY_LOCATION = `
+  query GetPrimaryLocation {
+    location {
+      id
+    }
+  }
+`;
+
+export const SET_INVENTORY_BATCH = `
+  mutation SetInventoryBatch($quantities: [InventoryQuantityInput!]!) {
     inventorySetQuantities(
       input: {
         reason: "correction"
         name: "available"
-        quantities: [{
-          inventoryItemId: $inventoryItemId
-          locationId: $locationId
-          quantity: $quantity
-        }]
+        quantities: $quantities
       }
     ) {
       inventoryAdjustmentGroup {
@@ -65,6 +196,13 @@ export const SET_INVENTORY = `
         changes {
           name
           delta
+          quantityAfterChange
+          item {
+            id
+          }
+          location {
+            id
+          }
         }
       }
       userErrors {
@@ -75,19 +213,13 @@ export const SET_INVENTORY = `
   }
 `;
 
-export const ADJUST_INVENTORY = `
-  mutation AdjustInventory($inventoryItemId: ID!, $locationId: ID!, $delta: Int!) {
+export const ADJUST_INVENTORY_BATCH = `
+  mutation AdjustInventoryBatch($changes: [InventoryChangeInput!]!) {
     inventoryAdjustQuantities(
       input: {
         reason: "correction"
         name: "available"
-        changes: [
-          {
-            inventoryItemId: $inventoryItemId
-            locationId: $locationId
-            delta: $delta
-          }
-        ]
+        changes: $changes
       }
     ) {
       inventoryAdjustmentGroup {
@@ -95,8 +227,104 @@ export const ADJUST_INVENTORY = `
         changes {
           name
           delta
+          quantityAfterChange
+          item {
+            id
+          }
+          location {
+            id
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const GET_COMPONENT_PRICES = `
+  query GetComponentPrices($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        variants(first: 1) {
+          edges {
+            node {
+              price
+            }
+          }
+        }
+      }
+      ... on ProductVariant {
+        id
+        price
+      }
+    }
+  }
+`;
+
+export const UPDATE_VARIANT_PRICES = `
+  mutation UpdateVariantPrices($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+    productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+      productVariants {
+        id
+        price
+        compareAtPrice
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export const GET_PRODUCT_REFERENCES = `
+  query GetProductReferences($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+      }
+      ... on ProductVariant {
+        id
+        title
+        sku
+        product {
+          id
+          title
+        }
+      }
+    }
+  }
+`;
+
+export const FIND_VARIANTS_BY_SKU = `
+  query FindVariantsBySku($query: String!) {
+    productVariants(first: 250, query: $query) {
+      edges {
+        node {
+          id
+          title
+          sku
+          product {
+            id
+            title
+          }
         }
       }
+    }
+  }
+`;
+
+export const SET_BUNDLE_CONFIG = `
+  mutation SetBundleConfig($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      metafields {
+        id
+      }
       userErrors {
         field
         message
@@ -105,9 +333,85 @@ export const ADJUST_INVENTORY = `
   }
 `;
 
+export const UPDATE_PRODUCT_STATUS = `
+  mutation UpdateProductStatus($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Keeps the estimated cost of GET_INVENTORY_NODES well under the 1000 point limit
+const INVENTORY_NODES_BATCH_SIZE = 25;
+const BUNDLE_CONFIGS_BATCH_SIZE = 100;
+// metafieldsSet takes at most 25 metafields per call
+export const METAFIELDS_SET_BATCH_SIZE = 25;
+const SKU_LOOKUP_BATCH_SIZE = 50;
+
+const SHOPIFY_API_MAX_RETRIES = Number(process.env.SHOPIFY_API_MAX_RETRIES || 4);
+const RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_QUERY_COST = 50;
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+  updatedAt: number;
+}
+
+const log = createLogger('graphql');
+
+// Last reported query cost budget, per shop
+const throttleStatuses = new Map<string, ThrottleStatus>();
+// Last requested cost of each query document, used to estimate the next call
+const queryCosts = new Map<string, number>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function withJitter(ms: number): number {
+  return Math.round(ms / 2 + Math.random() * ms / 2);
+}
+
+function logInvalidConfig(productId: string, error: unknown): void {
+  if (error instanceof BundleConfigError) {
+    log.error('Invalid bundle config', { productId, issues: error.issues.map(formatIssue) });
+  } else {
+    log.error('Invalid bundle config', { productId, error });
+  }
+}
+
+/**
+ * `.catch` handler for getBundleConfig where an invalid config should be
+ * skipped like a missing one, e.g. when repricing every parent bundle.
+ */
+export function skipInvalidConfig(error: unknown): null {
+  if (error instanceof InvalidBundleConfigError) return null;
+  throw error;
+}
+
+function toProductReference(node: any): ProductReference {
+  return node.product
+    ? { productId: node.product.id, variantId: node.id, title: node.product.title, variantTitle: node.title, sku: node.sku || null }
+    : { productId: node.id, variantId: null, title: node.title, variantTitle: null, sku: null };
+}
+
+function projectedAvailable(status: ThrottleStatus): number {
+  const restored = ((Date.now() - status.updatedAt) / 1000) * status.restoreRate;
+  return Math.min(status.maximumAvailable, status.currentlyAvailable + restored);
+}
+
 export class ShopifyGraphQL {
   private accessToken: string;
-  private shop: string;
+  readonly shop: string;
   private apiVersion: string;
 
   constructor(shop: string, accessToken: string, apiVersion: string = '2024-10') {
@@ -116,112 +420,437 @@ export class ShopifyGraphQL {
     this.apiVersion = apiVersion;
   }
 
+  /**
+   * Runs a GraphQL request, waiting first when the shop's cost budget can't
+   * cover the query's expected cost. Throttled, 5xx and network failures are
+   * retried with jittered exponential backoff up to SHOPIFY_API_MAX_RETRIES
+   * times; everything else is thrown as a typed ShopifyApiError.
+   */
   async query<T>(query: string, variables: Record<string, any> = {}): Promise<T> {
-    const url = `https://${this.shop}/admin/api/${this.apiVersion}/graphql.json`;
+    const operation = operationName(query);
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': this.accessToken,
-      },
-      body: JSON.stringify({
-        query,
-        variables,
-      }),
-    });
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(query);
 
-    if (!response.ok) {
-      throw new Error(`GraphQL request failed: ${response.statusText}`);
+      const endTimer = graphqlDuration.startTimer({ operation });
+      try {
+        const result = await this.execute<T>(query, variables);
+        endTimer();
+        graphqlRequests.inc({ operation, outcome: 'success' });
+        return result;
+      } catch (error) {
+        endTimer();
+        graphqlRequests.inc({ operation, outcome: error instanceof ShopifyApiError ? error.name : 'error' });
+        if (error instanceof ShopifyThrottledError) {
+          graphqlThrottles.inc({ kind: 'throttled' });
+        }
+
+        if (!(error instanceof ShopifyApiError) || !error.retryable || attempt >= SHOPIFY_API_MAX_RETRIES) {
+          throw error;
+        }
+
+        const delay = error instanceof ShopifyThrottledError
+          ? Math.max(error.retryAfterMs, RETRY_BASE_DELAY_MS)
+          : withJitter(RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+        log.warn('Request failed, retrying', {
+          operation,
+          error: error.message,
+          retryInMs: delay,
+          attempt: attempt + 1,
+          maxRetries: SHOPIFY_API_MAX_RETRIES,
+        });
+        await sleep(delay);
+      }
     }
+  }
+
+  private async waitForBudget(query: string): Promise<void> {
+    const status = throttleStatuses.get(this.shop);
+    if (!status || status.restoreRate <= 0) return;
 
-    return response.json() as Promise<T>;
+    const expectedCost = Math.min(queryCosts.get(query) ?? DEFAULT_QUERY_COST, status.maximumAvailable);
+    const shortfall = expectedCost - projectedAvailable(status);
+    if (shortfall <= 0) return;
+
+    const delay = Math.ceil((shortfall / status.restoreRate) * 1000);
+    log.info('Waiting for query budget', { shop: this.shop, delayMs: delay });
+    graphqlThrottles.inc({ kind: 'budget_wait' });
+    await sleep(delay);
   }
 
-  async getBundleConfig(productId: string): Promise<BundleConfig | null> {
+  private async execute<T>(query: string, variables: Record<string, any>): Promise<T> {
+    const url = `https://${this.shop}/admin/api/${this.apiVersion}/graphql.json`;
+
+    let response: globalThis.Response;
     try {
-      const result = await this.query<ProductQueryResponse>(GET_BUNDLE_CONFIG, {
-        productId,
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': this.accessToken,
+        },
+        body: JSON.stringify({
+          query,
+          variables,
+        }),
       });
+    } catch (error) {
+      throw new ShopifyNetworkError(this.shop, error);
+    }
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After') || 1);
+      throw new ShopifyThrottledError(this.shop, retryAfter * 1000 + withJitter(RETRY_BASE_DELAY_MS));
+    }
+
+    if (!response.ok) {
+      throw new ShopifyHttpError(this.shop, response.status, response.statusText, await response.text());
+    }
+
+    const body: any = await response.json();
+    const cost = body.extensions?.cost;
 
-      if (!result.data?.product?.metafield) {
-        return null;
+    if (cost) {
+      queryCosts.set(query, cost.requestedQueryCost);
+      if (cost.throttleStatus) {
+        throttleStatuses.set(this.shop, { ...cost.throttleStatus, updatedAt: Date.now() });
       }
+    }
 
-      const bundleConfig: BundleConfig = JSON.parse(result.data.product.metafield.value);
-      return bundleConfig;
-    } catch (error) {
-      console.error(`Error fetching bundle config:`, error);
-      return null;
+    const errors: GraphQLErrorDetail[] = body.errors || [];
+    if (errors.length > 0) {
+      if (errors.some(error => error.extensions?.code === 'THROTTLED')) {
+        const status = throttleStatuses.get(this.shop);
+        const needed = (cost?.requestedQueryCost ?? DEFAULT_QUERY_COST) - (status?.currentlyAvailable ?? 0);
+        const retryAfterMs = status?.restoreRate ? Math.ceil((needed / status.restoreRate) * 1000) : 1000;
+
+        throw new ShopifyThrottledError(this.shop, retryAfterMs + withJitter(RETRY_BASE_DELAY_MS), errors);
+      }
+
+      throw new ShopifyGraphQLError(this.shop, errors);
     }
+
+    return body as T;
   }
 
-  async getInventoryItemId(productId: string): Promise<string | null> {
-    try {
-      const result: any = await this.query(GET_INVENTORY_ITEM, { productId });
+  private assertNoUserErrors(operation: string, userErrors: UserErrorDetail[] | undefined): void {
+    if (userErrors?.length) {
+      throw new ShopifyUserError(this.shop, operation, userErrors);
+    }
+  }
 
-      const variant = result.data?.product?.variants?.edges?.[0]?.node;
-      return variant?.inventoryItem?.id || null;
-    } catch (error) {
-      console.error(`Error fetching inventory item:`, error);
+  /**
+   * Returns null when the product has no bundle config. A config that fails
+   * schema validation is logged with each problem and throws an
+   * `InvalidBundleConfigError`; callers that sweep many bundles can skip it
+   * with `skipInvalidConfig`.
+   */
+  async getBundleConfig(productId: string): Promise<BundleConfig | null> {
+    const result = await this.query<ProductQueryResponse>(GET_BUNDLE_CONFIG, {
+      productId,
+    });
+
+    if (!result.data?.product?.metafield) {
       return null;
     }
-  }
 
-  async getInventoryLevel(inventoryItemId: string, locationId: string): Promise<number | null> {
     try {
-      const result: any = await this.query(GET_INVENTORY_LEVEL, {
-        inventoryItemId,
-        locationId,
-      });
-
-      const available = result.data?.inventoryItem?.inventoryLevel?.available;
-      return available !== undefined ? available : null;
+      return parseBundleConfig(result.data.product.metafield.value);
     } catch (error) {
-      console.error(`Error fetching inventory level:`, error);
-      return null;
+      logInvalidConfig(productId, error);
+      throw new InvalidBundleConfigError(productId, error);
     }
   }
 
-  async setInventory(inventoryItemId: string, locationId: string, quantity: number): Promise<boolean> {
-    try {
-      const result: any = await this.query(SET_INVENTORY, {
-        inventoryItemId,
-        locationId,
-        quantity,
+  async getProductTitle(productId: string): Promise<string | null> {
+    const result = await this.query<ProductQueryResponse>(GET_BUNDLE_CONFIG, { productId });
+    return result.data?.product?.title ?? null;
+  }
+
+  /**
+   * Bundle configs for several products in batched `nodes` queries. Products
+   * without a (valid) config map to null.
+   */
+  async getBundleConfigs(productIds: string[]): Promise<Map<string, BundleConfig | null>> {
+    const uniqueIds = Array.from(new Set(productIds));
+    const configs = new Map<string, BundleConfig | null>(uniqueIds.map(id => [id, null]));
+
+    for (let i = 0; i < uniqueIds.length; i += BUNDLE_CONFIGS_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + BUNDLE_CONFIGS_BATCH_SIZE);
+      const result: any = await this.query(GET_BUNDLE_CONFIGS, { ids: batch });
+
+      for (const node of result.data?.nodes || []) {
+        if (!node?.id || !node.metafield) continue;
+
+        try {
+          configs.set(node.id, parseBundleConfig(node.metafield.value));
+        } catch (error) {
+          logInvalidConfig(node.id, error);
+        }
+      }
+    }
+
+    return configs;
+  }
+
+  async getBundleProducts(): Promise<BundleProductConfig[]> {
+    const bundles: BundleProductConfig[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const result: BundleProductsQueryResponse = await this.query<BundleProductsQueryResponse>(GET_BUNDLE_PRODUCTS, {
+        cursor,
       });
 
-      if (result.data?.inventorySetQuantities?.userErrors?.length) {
-        const errors = result.data.inventorySetQuantities.userErrors;
-        console.error(`Set inventory errors:`, errors);
-        return false;
+      const products = result.data?.products;
+      if (!products) break;
+
+      for (const edge of products.edges) {
+        const metafield = edge.node.metafield;
+        if (!metafield) continue;
+
+        try {
+          const config = parseBundleConfig(metafield.value);
+          if (config.isBundle) {
+            bundles.push({ productId: edge.node.id, title: edge.node.title, config });
+          }
+        } catch (error) {
+          logInvalidConfig(edge.node.id, error);
+        }
       }
 
-      return true;
-    } catch (error) {
-      console.error(`Error setting inventory:`, error);
-      return false;
+      cursor = products.pageInfo.hasNextPage ? products.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return bundles;
+  }
+
+  async getProductVariants(productId: string): Promise<ProductVariantInventory[]> {
+    const result: any = await this.query(GET_PRODUCT_VARIANTS, { productId });
+
+    return (result.data?.product?.variants?.edges || []).map((edge: any) => ({
+      id: edge.node.id,
+      title: edge.node.title,
+      inventoryItemId: edge.node.inventoryItem?.id || null,
+      price: edge.node.price,
+      compareAtPrice: edge.node.compareAtPrice ?? null,
+    }));
+  }
+
+  /**
+   * Runs `task` while holding the lock for an inventory item in this shop.
+   * Inventory mutations take the same lock, so read-modify-write sequences
+   * wrapped in it cannot interleave with other adjustments to that item.
+   */
+  async withInventoryLock<T>(inventoryItemId: string, task: () => Promise<T>): Promise<T> {
+    return inventoryLocks.run(`${this.shop}:${inventoryItemId}`, task);
+  }
+
+  /**
+   * Resolves the inventory item and per-location levels for each product or
+   * variant ID in batched `nodes` queries. Product IDs resolve to the
+   * product's first variant. IDs that don't resolve are left out of the map.
+   */
+  async resolveInventoryItems(ids: string[]): Promise<Map<string, ResolvedInventoryItem>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const resolved = new Map<string, ResolvedInventoryItem>();
+
+    for (let i = 0; i < uniqueIds.length; i += INVENTORY_NODES_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + INVENTORY_NODES_BATCH_SIZE);
+      const result: any = await this.query(GET_INVENTORY_NODES, { ids: batch });
+
+      for (const node of result.data?.nodes || []) {
+        if (!node?.id) continue;
+
+        const inventoryItem = node.inventoryItem || node.variants?.edges?.[0]?.node?.inventoryItem;
+        if (!inventoryItem) continue;
+
+        const levels = new Map<string, number>();
+        for (const edge of inventoryItem.inventoryLevels?.edges || []) {
+          const available = edge.node.quantities.find((q: any) => q.name === 'available');
+          levels.set(edge.node.location.id, available?.quantity ?? 0);
+        }
+
+        resolved.set(node.id, {
+          inventoryItemId: inventoryItem.id,
+          tracked: inventoryItem.tracked !== false,
+          levels,
+        });
+      }
     }
+
+    return resolved;
   }
 
-  async adjustInventory(inventoryItemId: string, locationId: string, delta: number): Promise<boolean> {
-    try {
-      const result = await this.query<InventoryAdjustmentResponse>(ADJUST_INVENTORY, {
-        inventoryItemId,
-        locationId,
-        delta,
-      });
+  async getFulfillmentLocations(orderId: string): Promise<FulfillmentLocationAssignment[]> {
+    const result: any = await this.query(GET_ORDER_FULFILLMENT_LOCATIONS, { orderId });
 
-      if (result.data?.inventoryAdjustQuantities?.userErrors?.length) {
-        const errors = result.data.inventoryAdjustQuantities.userErrors;
-        console.error(`Inventory adjustment errors:`, errors);
-        return false;
+    const assignments: FulfillmentLocationAssignment[] = [];
+    for (const fulfillmentOrder of result.data?.order?.fulfillmentOrders?.nodes || []) {
+      const locationId = fulfillmentOrder.assignedLocation?.location?.id;
+      if (!locationId) continue;
+
+      for (const lineItem of fulfillmentOrder.lineItems?.nodes || []) {
+        assignments.push({
+          lineItemId: lineItem.lineItem.id,
+          locationId,
+          quantity: lineItem.totalQuantity,
+        });
       }
+    }
 
-      return true;
-    } catch (error) {
-      console.error(`Error adjusting inventory:`, error);
-      return false;
+    return assignments;
+  }
+
+  async getPrimaryLocationId(): Promise<string | null> {
+    const result: any = await this.query(GET_PRIMARY_LOCATION);
+    return result.data?.location?.id || null;
+  }
+
+  async withInventoryLocks<T>(inventoryItemIds: string[], task: () => Promise<T>): Promise<T> {
+    return inventoryLocks.runAll(inventoryItemIds.map(id => `${this.shop}:${id}`), task);
+  }
+
+  /**
+   * Sets several inventory quantities in a single `inventorySetQuantities` call.
+   */
+  async setInventoryBatch(quantities: InventoryQuantity[]): Promise<void> {
+    if (quantities.length === 0) return;
+
+    await this.withInventoryLocks(quantities.map(q => q.inventoryItemId), () =>
+      auditInventoryChanges(this.shop, 'set', quantities, async () => {
+        const result: any = await this.query(SET_INVENTORY_BATCH, { quantities });
+
+        this.assertNoUserErrors('inventorySetQuantities', result.data?.inventorySetQuantities?.userErrors);
+        return result.data?.inventorySetQuantities?.inventoryAdjustmentGroup?.changes || [];
+      })
+    );
+  }
+
+  /**
+   * Applies several inventory deltas in a single `inventoryAdjustQuantities` call.
+   */
+  async adjustInventoryBatch(changes: InventoryChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.withInventoryLocks(changes.map(c => c.inventoryItemId), () =>
+      auditInventoryChanges(this.shop, 'adjust', changes, async () => {
+        const result = await this.query<InventoryAdjustmentResponse>(ADJUST_INVENTORY_BATCH, { changes });
+
+        this.assertNoUserErrors('inventoryAdjustQuantities', result.data?.inventoryAdjustQuantities?.userErrors);
+        return result.data?.inventoryAdjustQuantities?.inventoryAdjustmentGroup?.changes || [];
+      })
+    );
+  }
+
+  /**
+   * Unit prices of products (their first variant) or variants, as the
+   * decimal strings Shopify returns, batched like resolveInventoryItems.
+   */
+  async getComponentPrices(ids: string[]): Promise<Map<string, string>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const prices = new Map<string, string>();
+
+    for (let i = 0; i < uniqueIds.length; i += BUNDLE_CONFIGS_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + BUNDLE_CONFIGS_BATCH_SIZE);
+      const result: any = await this.query(GET_COMPONENT_PRICES, { ids: batch });
+
+      for (const node of result.data?.nodes || []) {
+        const price = node?.price ?? node?.variants?.edges?.[0]?.node?.price;
+        if (node?.id && price != null) {
+          prices.set(node.id, price);
+        }
+      }
     }
+
+    return prices;
+  }
+
+  async updateVariantPrices(productId: string, variants: VariantPriceUpdate[]): Promise<void> {
+    if (variants.length === 0) return;
+
+    const result: any = await this.query(UPDATE_VARIANT_PRICES, { productId, variants });
+
+    this.assertNoUserErrors('productVariantsBulkUpdate', result.data?.productVariantsBulkUpdate?.userErrors);
+  }
+
+  /**
+   * Writes a product's `custom.bundle_config`. Throws BundleConfigError
+   * rather than saving a config that fails validation.
+   */
+  async setBundleConfig(productId: string, config: BundleConfig): Promise<void> {
+    await this.setBundleConfigs([{ productId, config }]);
+  }
+
+  /**
+   * Writes up to METAFIELDS_SET_BATCH_SIZE bundle configs in one
+   * `metafieldsSet` call, which saves all of them or none.
+   */
+  async setBundleConfigs(bundles: Array<{ productId: string; config: BundleConfig }>): Promise<void> {
+    if (bundles.length > METAFIELDS_SET_BATCH_SIZE) {
+      throw new Error(`At most ${METAFIELDS_SET_BATCH_SIZE} bundle configs can be written at once`);
+    }
+
+    const result: any = await this.query(SET_BUNDLE_CONFIG, {
+      metafields: bundles.map(({ productId, config }) => ({
+        ownerId: productId,
+        namespace: 'custom',
+        key: 'bundle_config',
+        type: 'json',
+        value: serializeBundleConfig(config),
+      })),
+    });
+
+    this.assertNoUserErrors('metafieldsSet', result.data?.metafieldsSet?.userErrors);
+  }
+
+  /**
+   * Products and variants by ID, with their titles. IDs that don't exist
+   * (or aren't products or variants) are left out.
+   */
+  async getProductReferences(ids: string[]): Promise<Map<string, ProductReference>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const references = new Map<string, ProductReference>();
+
+    for (let i = 0; i < uniqueIds.length; i += BUNDLE_CONFIGS_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + BUNDLE_CONFIGS_BATCH_SIZE);
+      const result: any = await this.query(GET_PRODUCT_REFERENCES, { ids: batch });
+
+      for (const node of result.data?.nodes || []) {
+        if (!node?.id) continue;
+        references.set(node.id, toProductReference(node));
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Variants by SKU. A SKU shared by several variants maps to all of them.
+   */
+  async findVariantsBySku(skus: string[]): Promise<Map<string, ProductReference[]>> {
+    const uniqueSkus = Array.from(new Set(skus));
+    const variants = new Map<string, ProductReference[]>();
+
+    for (let i = 0; i < uniqueSkus.length; i += SKU_LOOKUP_BATCH_SIZE) {
+      const batch = uniqueSkus.slice(i, i + SKU_LOOKUP_BATCH_SIZE);
+      const query = batch.map(sku => `sku:"${sku.replace(/["\\]/g, '\\$&')}"`).join(' OR ');
+      const result: any = await this.query(FIND_VARIANTS_BY_SKU, { query });
+
+      for (const edge of result.data?.productVariants?.edges || []) {
+        // The search is fuzzy; keep exact matches only
+        if (!batch.includes(edge.node.sku)) continue;
+        variants.set(edge.node.sku, [...(variants.get(edge.node.sku) || []), toProductReference(edge.node)]);
+      }
+    }
+
+    return variants;
+  }
+
+  async setProductStatus(productId: string, status: 'ACTIVE' | 'ARCHIVED' | 'DRAFT'): Promise<void> {
+    const result: any = await this.query(UPDATE_PRODUCT_STATUS, { product: { id: productId, status } });
+
+    this.assertNoUserErrors('productUpdate', result.data?.productUpdate?.userErrors);
   }
 }
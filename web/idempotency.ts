@@ -0,0 +1,182 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { JsonStore } from './store.js';
+import { jobQueue } from './jobs.js';
+
+// Shopify stops redelivering a webhook 48 hours after the first attempt
+const PROCESSED_RETENTION_HOURS = Number(process.env.PROCESSED_RETENTION_HOURS || 48);
+
+export interface ProcessedWebhook {
+  webhookId: string;
+  shop: string;
+  topic: string;
+  processedAt: string;
+}
+
+export interface ProcessedLineItem {
+  shop: string;
+  key: string;
+  webhookId: string | null;
+  processedAt: string;
+}
+
+interface ProcessedData {
+  webhooks: Record<string, ProcessedWebhook>;
+  lineItems: Record<string, ProcessedLineItem>;
+}
+
+export interface ProcessedFilter {
+  shop?: string;
+  topic?: string;
+  before?: Date;
+  // Only line items of these orders (orders/create and orders/cancelled keys)
+  orderIds?: string[];
+}
+
+function lineItemId(shop: string, key: string): string {
+  return `${shop}|${key}`;
+}
+
+// Line items recorded inside `batch`, written when it settles
+const pendingLineItems = new AsyncLocalStorage<Map<string, ProcessedLineItem>>();
+
+/**
+ * Persistent record of the webhooks and order/line-item pairs that have been
+ * processed, so Shopify's retries never apply the same inventory change twice.
+ *
+ * Line item keys are scoped by action, e.g. `orders/create:<order>:<line item>`,
+ * which lets a retried webhook skip the lines it finished before failing.
+ *
+ * Entries older than PROCESSED_RETENTION_HOURS are dropped on the next write,
+ * except line items of jobs still in the queue: a dead job can be retried by
+ * hand at any time.
+ */
+export class ProcessedWebhookStore {
+  private store = new JsonStore<ProcessedData>('processed-webhooks', {
+    webhooks: {},
+    lineItems: {},
+  });
+
+  hasWebhook(webhookId: string): boolean {
+    return webhookId in this.store.get().webhooks;
+  }
+
+  recordWebhook(webhookId: string, shop: string, topic: string): void {
+    this.store.update(data => {
+      prune(data);
+      data.webhooks[webhookId] = {
+        webhookId,
+        shop,
+        topic,
+        processedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  hasLineItem(shop: string, key: string): boolean {
+    const id = lineItemId(shop, key);
+    return id in this.store.get().lineItems || !!pendingLineItems.getStore()?.has(id);
+  }
+
+  recordLineItem(shop: string, key: string, webhookId: string | null): void {
+    const entry: ProcessedLineItem = { shop, key, webhookId, processedAt: new Date().toISOString() };
+
+    const pending = pendingLineItems.getStore();
+    if (pending) {
+      pending.set(lineItemId(shop, key), entry);
+      return;
+    }
+
+    this.writeLineItems([entry]);
+  }
+
+  /**
+   * Runs `task` with the line items it records written in one update when it
+   * settles, whether it succeeded or threw, rather than one file write each.
+   */
+  async batch<T>(task: () => Promise<T>): Promise<T> {
+    const pending = new Map<string, ProcessedLineItem>();
+    try {
+      return await pendingLineItems.run(pending, task);
+    } finally {
+      this.writeLineItems(Array.from(pending.values()));
+    }
+  }
+
+  private writeLineItems(entries: ProcessedLineItem[]): void {
+    if (entries.length === 0) return;
+
+    this.store.update(data => {
+      prune(data);
+      for (const entry of entries) {
+        data.lineItems[lineItemId(entry.shop, entry.key)] = entry;
+      }
+    });
+  }
+
+  list(filter: ProcessedFilter = {}): { webhooks: ProcessedWebhook[]; lineItems: ProcessedLineItem[] } {
+    const { webhooks, lineItems } = this.store.get();
+
+    return {
+      webhooks: Object.values(webhooks).filter(entry => matches(entry, filter)),
+      lineItems: Object.values(lineItems).filter(entry => matches(entry, filter)),
+    };
+  }
+
+  purge(filter: ProcessedFilter = {}): number {
+    return this.store.update(data => {
+      let purged = 0;
+
+      for (const [id, entry] of Object.entries(data.webhooks)) {
+        if (matches(entry, filter)) {
+          delete data.webhooks[id];
+          purged++;
+        }
+      }
+
+      for (const [id, entry] of Object.entries(data.lineItems)) {
+        if (matches(entry, filter)) {
+          delete data.lineItems[id];
+          purged++;
+        }
+      }
+
+      return purged;
+    });
+  }
+}
+
+/**
+ * Drops the entries older than PROCESSED_RETENTION_HOURS, keeping the line
+ * items of jobs that are still queued.
+ */
+function prune(data: ProcessedData): void {
+  const cutoff = new Date(Date.now() - PROCESSED_RETENTION_HOURS * 60 * 60 * 1000).toISOString();
+
+  for (const [id, entry] of Object.entries(data.webhooks)) {
+    if (entry.processedAt < cutoff) delete data.webhooks[id];
+  }
+
+  const expired = Object.entries(data.lineItems).filter(([, entry]) => entry.processedAt < cutoff);
+  if (expired.length === 0) return;
+
+  const queuedWebhookIds = new Set(jobQueue.list().map(job => job.webhookId));
+  for (const [id, entry] of expired) {
+    if (!entry.webhookId || !queuedWebhookIds.has(entry.webhookId)) delete data.lineItems[id];
+  }
+}
+
+function matches(entry: ProcessedWebhook | ProcessedLineItem, filter: ProcessedFilter): boolean {
+  if (filter.shop && entry.shop !== filter.shop) return false;
+  if (filter.topic) {
+    const topic = 'topic' in entry ? entry.topic : entry.key.split(':')[0];
+    if (topic !== filter.topic) return false;
+  }
+  if (filter.before && new Date(entry.processedAt) >= filter.before) return false;
+  if (filter.orderIds) {
+    if ('topic' in entry || !entry.key.startsWith('orders/')) return false;
+    if (!filter.orderIds.includes(entry.key.split(':')[1])) return false;
+  }
+  return true;
+}
+
+export const processedWebhooks = new ProcessedWebhookStore();
@@ -0,0 +1,468 @@
+import { skipInvalidConfig } from './graphql.js';
+import type { ShopifyGraphQL } from './graphql.js';
+import { bundleIndex } from './bundle-index.js';
+import {
+  getBundleComponents,
+  getSelectedComponents,
+  getWorstCaseComponents,
+  hasComponents,
+  componentLabel,
+} from './bundles.js';
+import { expandBundleComponents } from '../shared/bundle-config.js';
+import { withAuditContext } from './audit.js';
+import { sendBundleAlerts } from './alerts.js';
+import { createLogger } from './logger.js';
+import type { AuditedComponent } from './audit.js';
+import type { ExpandedComponents } from '../shared/bundle-config.js';
+import type {
+  BundleConfig,
+  BundleProduct,
+  BundleLevelCorrection,
+  ShopifyLineItem,
+  LocationAllocation,
+  InventoryChange,
+  InventoryQuantity,
+  ResolvedInventoryItem,
+} from './types.js';
+
+// Changes per `inventoryAdjustQuantities` call
+const INVENTORY_ADJUST_BATCH_SIZE = 250;
+
+const log = createLogger('inventory');
+
+/**
+ * A line item's component changes could not all be applied. When
+ * `compensated` is true nothing is left changed and the deduction can be
+ * retried; otherwise `outstanding` lists the changes that are still applied.
+ * `retryable` is false when a retry would fail the same way, e.g. a component
+ * without an inventory item.
+ */
+export class BundleDeductionError extends Error {
+  readonly compensated: boolean;
+  readonly outstanding: InventoryChange[];
+  readonly retryable: boolean;
+
+  constructor(message: string, compensated: boolean, outstanding: InventoryChange[] = [], retryable = compensated) {
+    super(message);
+    this.name = 'BundleDeductionError';
+    this.compensated = compensated;
+    this.outstanding = outstanding;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The ID a component's inventory is resolved by: its variant when the config
+ * names one, otherwise the product (which resolves to its first variant).
+ */
+export function componentInventoryId(component: BundleProduct): string {
+  return component.variantId || component.productId;
+}
+
+/**
+ * Applies bundle units' worth of component stock for a line item at each
+ * allocated location: negative quantities when bundles are sold, positive
+ * when they come back into stock.
+ *
+ * Components that are themselves bundles are expanded into their own
+ * components, so only leaf stock is adjusted; the nested bundles' levels are
+ * then recomputed. All leaf components are resolved in one batched query.
+ *
+ * The component changes are all-or-nothing: a component without an inventory
+ * item fails the line item before anything is written, and a failed write
+ * reverses the changes already made (see `applyComponentChanges`).
+ */
+export async function adjustBundleComponents(
+  client: ShopifyGraphQL,
+  lineItem: ShopifyLineItem,
+  allocations: LocationAllocation[]
+): Promise<void> {
+  const configCache = new Map<string, BundleConfig | null>();
+  const { productId, bundleConfig, components, nestedBundles } = await resolveLineItemComponents(client, lineItem, configCache);
+  bundleIndex.updateBundle(client.shop, productId, bundleConfig);
+
+  if (!bundleConfig || components.length === 0) {
+    // Shopify already adjusted this product's own stock; the bundles that
+    // contain it need to be recomputed
+    await syncParentBundles(client, productId);
+    return;
+  }
+
+  log.info('Bundle detected', { bundleProductId: productId, components: components.length, nestedBundles: nestedBundles.size });
+
+  const inventory = await client.resolveInventoryItems(components.map(componentInventoryId));
+  const changes: InventoryChange[] = [];
+  const auditedComponents = new Map<string, AuditedComponent>();
+
+  for (const component of components) {
+    const item = inventory.get(componentInventoryId(component));
+    if (!item) {
+      throw new BundleDeductionError(`No inventory item for ${componentLabel(component)}`, true, [], false);
+    }
+
+    auditedComponents.set(item.inventoryItemId, component);
+
+    for (const allocation of allocations) {
+      const delta = component.quantity * allocation.quantity;
+      log.debug('Adjusting component', { component: componentLabel(component), locationId: allocation.locationId, delta });
+
+      changes.push({ inventoryItemId: item.inventoryItemId, locationId: allocation.locationId, delta });
+    }
+  }
+
+  await withAuditContext({ bundleProductId: productId, components: auditedComponents }, () =>
+    applyComponentChanges(client, mergeChanges(changes))
+  );
+
+  // Sync bundle inventory to match lowest component stock
+  await syncBundleInventory(client, productId, bundleConfig, configCache);
+
+  // Nested bundles' stock is derived from the leaf components just adjusted
+  for (const [nestedProductId, nestedConfig] of nestedBundles) {
+    await syncBundleInventory(client, nestedProductId, nestedConfig, configCache);
+  }
+}
+
+/**
+ * Applies a line item's component changes in `inventoryAdjustQuantities`
+ * batches. When a batch fails, the batches already applied are reversed and a
+ * BundleDeductionError is thrown, so the components are never left partly
+ * adjusted without a record of it.
+ */
+export async function applyComponentChanges(client: ShopifyGraphQL, changes: InventoryChange[]): Promise<void> {
+  const applied: InventoryChange[] = [];
+
+  try {
+    for (let i = 0; i < changes.length; i += INVENTORY_ADJUST_BATCH_SIZE) {
+      const batch = changes.slice(i, i + INVENTORY_ADJUST_BATCH_SIZE);
+      await client.adjustInventoryBatch(batch);
+      applied.push(...batch);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (applied.length === 0) {
+      throw new BundleDeductionError(message, true);
+    }
+
+    log.error('Adjustment failed, reversing applied changes', { applied: applied.length, total: changes.length, error: message });
+
+    const outstanding = await reverseChanges(client, applied);
+    if (outstanding.length > 0) {
+      log.error('Could not reverse changes - they need to be corrected by hand', { outstanding });
+    }
+
+    throw new BundleDeductionError(message, outstanding.length === 0, outstanding);
+  }
+}
+
+/**
+ * Applies the opposite of each change, returning the ones that could not be
+ * reversed.
+ */
+async function reverseChanges(client: ShopifyGraphQL, applied: InventoryChange[]): Promise<InventoryChange[]> {
+  for (let i = 0; i < applied.length; i += INVENTORY_ADJUST_BATCH_SIZE) {
+    const batch = applied.slice(i, i + INVENTORY_ADJUST_BATCH_SIZE);
+
+    try {
+      await client.adjustInventoryBatch(batch.map(change => ({ ...change, delta: -change.delta })));
+    } catch (error) {
+      log.error('Compensation failed', { error });
+      return applied.slice(i);
+    }
+  }
+
+  return [];
+}
+
+export interface LineItemComponents {
+  productId: string;
+  bundleConfig: BundleConfig | null;
+  // Leaf components per unit; empty when the product isn't a bundle
+  components: BundleProduct[];
+  nestedBundles: Map<string, BundleConfig>;
+}
+
+/**
+ * Resolves the leaf components of one unit of a line item: the variant's
+ * components plus the customer's mix-and-match choices, with nested bundles
+ * expanded.
+ */
+export async function resolveLineItemComponents(
+  client: ShopifyGraphQL,
+  lineItem: ShopifyLineItem,
+  configCache = new Map<string, BundleConfig | null>()
+): Promise<LineItemComponents> {
+  const productId = `gid://shopify/Product/${lineItem.product_id}`;
+  const variantId = lineItem.variant_id ? `gid://shopify/ProductVariant/${lineItem.variant_id}` : null;
+
+  const bundleConfig = await client.getBundleConfig(productId);
+
+  const directComponents = bundleConfig?.isBundle
+    ? [...getBundleComponents(bundleConfig, variantId), ...getSelectedComponents(bundleConfig, lineItem)]
+    : [];
+
+  if (!bundleConfig || directComponents.length === 0) {
+    return { productId, bundleConfig, components: [], nestedBundles: new Map() };
+  }
+
+  const { components, nestedBundles } = await expandComponents(client, productId, directComponents, configCache);
+  return { productId, bundleConfig, components, nestedBundles };
+}
+
+/**
+ * Expands nested bundles into leaf components, loading each nesting level's
+ * configs in one batched query. Configs already in `configCache` aren't
+ * fetched again.
+ */
+export function expandComponents(
+  client: ShopifyGraphQL,
+  bundleProductId: string,
+  components: BundleProduct[],
+  configCache = new Map<string, BundleConfig | null>()
+): Promise<ExpandedComponents> {
+  return expandBundleComponents(bundleProductId, components, async productIds => {
+    const missing = productIds.filter(productId => !configCache.has(productId));
+    if (missing.length > 0) {
+      for (const [productId, config] of await client.getBundleConfigs(missing)) {
+        configCache.set(productId, config);
+      }
+    }
+
+    return new Map(productIds.map(productId => [productId, configCache.get(productId) ?? null]));
+  });
+}
+
+/**
+ * Recomputes every bundle that contains the component, then the bundles that
+ * contain those bundles, and so on up the nesting chain.
+ */
+export async function syncParentBundles(client: ShopifyGraphQL, componentProductId: string, synced = new Set<string>()): Promise<void> {
+  const bundleProductIds = (await bundleIndex.getBundlesForComponent(client, client.shop, componentProductId))
+    .filter(bundleProductId => !synced.has(bundleProductId));
+
+  if (bundleProductIds.length === 0) return;
+
+  log.info('Syncing bundles containing component', { componentProductId, bundles: bundleProductIds.length });
+
+  for (const bundleProductId of bundleProductIds) {
+    synced.add(bundleProductId);
+
+    const bundleConfig = await client.getBundleConfig(bundleProductId).catch(skipInvalidConfig);
+    bundleIndex.updateBundle(client.shop, bundleProductId, bundleConfig);
+
+    if (!hasComponents(bundleConfig)) continue;
+
+    await syncBundleInventory(client, bundleProductId, bundleConfig);
+    await syncParentBundles(client, bundleProductId, synced);
+  }
+}
+
+/**
+ * Recomputes the level of every variant of a bundle product, at every
+ * location that stocks it, from the components mapped to that variant.
+ * Mix-and-match groups count at their worst case, so the level never
+ * promises more bundles than some combination of choices could fill.
+ *
+ * Errors are logged rather than thrown: the component changes that led here
+ * have already been applied.
+ */
+export async function syncBundleInventory(
+  client: ShopifyGraphQL,
+  bundleProductId: string,
+  bundleConfig: BundleConfig,
+  configCache = new Map<string, BundleConfig | null>()
+): Promise<void> {
+  try {
+    await reconcileBundleInventory(client, bundleProductId, bundleConfig, { configCache });
+  } catch (error) {
+    log.error('Bundle inventory sync failed', { bundleProductId, error });
+  }
+}
+
+export interface ReconcileOptions {
+  // Compute the corrections without writing them
+  reportOnly?: boolean;
+  configCache?: Map<string, BundleConfig | null>;
+  // Levels to use instead of the current ones, by `inventoryLevelKey`
+  simulatedLevels?: Map<string, number>;
+}
+
+export function inventoryLevelKey(inventoryItemId: string, locationId: string): string {
+  return `${inventoryItemId}|${locationId}`;
+}
+
+/**
+ * Same as `syncBundleInventory`, but returns the levels that drifted and
+ * throws on failure. Bundle variants and components are resolved in one
+ * batched query and all corrections are written with a single
+ * `inventorySetQuantities` call.
+ */
+export async function reconcileBundleInventory(
+  client: ShopifyGraphQL,
+  bundleProductId: string,
+  bundleConfig: BundleConfig,
+  { reportOnly = false, configCache = new Map(), simulatedLevels }: ReconcileOptions = {}
+): Promise<BundleLevelCorrection[]> {
+  const worstCaseComponents = getWorstCaseComponents(bundleConfig);
+  const variants = (await client.getProductVariants(bundleProductId))
+    .filter(variant => variant.inventoryItemId && getBundleComponents(bundleConfig, variant.id).length + worstCaseComponents.length > 0);
+
+  if (variants.length === 0) return [];
+
+  // Levels of bundles containing bundles are limited by the leaf components
+  const variantComponents = new Map<string, BundleProduct[]>();
+  for (const variant of variants) {
+    const components = [...getBundleComponents(bundleConfig, variant.id), ...worstCaseComponents];
+    const expanded = await expandComponents(client, bundleProductId, components, configCache);
+    variantComponents.set(variant.id, expanded.components);
+  }
+
+  const bundleInventoryItemIds = variants.map(variant => variant.inventoryItemId as string);
+
+  // Hold the bundle's inventory locks across the read-modify-write so a
+  // concurrent order's recompute cannot overwrite this one with stale levels
+  const levels = await client.withInventoryLocks(bundleInventoryItemIds, async () => {
+    const ids = [
+      ...variants.map(variant => variant.id),
+      ...Array.from(variantComponents.values()).flat().map(componentInventoryId),
+    ];
+    const inventory = await client.resolveInventoryItems(ids);
+
+    if (simulatedLevels) {
+      for (const item of inventory.values()) {
+        for (const locationId of item.levels.keys()) {
+          const simulated = simulatedLevels.get(inventoryLevelKey(item.inventoryItemId, locationId));
+          if (simulated !== undefined) item.levels.set(locationId, simulated);
+        }
+      }
+    }
+
+    // Every computed level, with `before` equal to `after` where it was right
+    const levels: BundleLevelCorrection[] = [];
+
+    for (const variant of variants) {
+      const bundleItem = inventory.get(variant.id);
+      if (!bundleItem || !bundleItem.tracked) continue;
+
+      const components = variantComponents.get(variant.id) || [];
+      const computed = computeBundleLevels(bundleItem, components, inventory);
+
+      for (const [locationId, { available: bundleInventory, limitedBy }] of computed) {
+        const current = bundleItem.levels.get(locationId) ?? 0;
+        if (bundleInventory !== current) {
+          log.info(reportOnly ? 'Bundle inventory drifted' : 'Setting bundle inventory', {
+            bundleProductId,
+            variant: variant.title,
+            locationId,
+            from: current,
+            to: bundleInventory,
+          });
+        }
+
+        levels.push({
+          bundleProductId,
+          variantId: variant.id,
+          variantTitle: variant.title,
+          inventoryItemId: bundleItem.inventoryItemId,
+          locationId,
+          before: current,
+          after: bundleInventory,
+          limitingComponent: componentLabel(limitedBy),
+        });
+      }
+    }
+
+    if (reportOnly) return levels;
+
+    const quantities: InventoryQuantity[] = levels.filter(isCorrection).map(({ inventoryItemId, locationId, after }) => ({
+      inventoryItemId,
+      locationId,
+      quantity: after,
+    }));
+
+    const auditedVariants = new Map<string, AuditedComponent>(
+      variants.map(variant => [variant.inventoryItemId as string, { productId: bundleProductId, variantId: variant.id }])
+    );
+
+    await withAuditContext({ bundleProductId, components: auditedVariants }, () =>
+      client.setInventoryBatch(quantities)
+    );
+
+    return levels;
+  });
+
+  // Thresholds are checked even when nothing was written: Shopify has usually
+  // already taken a sold bundle off its own level
+  if (!reportOnly) {
+    await sendBundleAlerts(client, bundleProductId, bundleConfig, levels);
+  }
+
+  return levels.filter(isCorrection);
+}
+
+function isCorrection(level: BundleLevelCorrection): boolean {
+  return level.before !== level.after;
+}
+
+export interface BundleLevel {
+  available: number;
+  // The component with the fewest bundles' worth of stock
+  limitedBy: BundleProduct;
+}
+
+/**
+ * Number of bundles each location that stocks the bundle can make from its
+ * component stock. A component that isn't stocked at a location limits the
+ * bundle there to 0; untracked or unresolvable components don't limit it.
+ */
+export function computeBundleLevels(
+  bundleItem: ResolvedInventoryItem,
+  components: BundleProduct[],
+  inventory: Map<string, ResolvedInventoryItem>
+): Map<string, BundleLevel> {
+  const levels = new Map<string, BundleLevel>();
+
+  const trackedComponents = components
+    .map(component => ({ component, item: inventory.get(componentInventoryId(component)) }))
+    .filter((entry): entry is { component: BundleProduct; item: ResolvedInventoryItem } => !!entry.item?.tracked);
+
+  if (trackedComponents.length === 0) return levels;
+
+  for (const locationId of bundleItem.levels.keys()) {
+    let level: BundleLevel | null = null;
+
+    for (const { component, item } of trackedComponents) {
+      const currentLevel = item.levels.get(locationId) ?? 0;
+      const bundlesAvailable = Math.max(0, Math.floor(currentLevel / component.quantity));
+
+      log.debug('Component availability', { component: componentLabel(component), locationId, units: currentLevel, bundlesAvailable });
+      if (!level || bundlesAvailable < level.available) {
+        level = { available: bundlesAvailable, limitedBy: component };
+      }
+    }
+
+    levels.set(locationId, level as BundleLevel);
+  }
+
+  return levels;
+}
+
+/**
+ * Combines changes for the same inventory item and location, since a
+ * component can appear more than once across a bundle's variant mappings.
+ */
+function mergeChanges(changes: InventoryChange[]): InventoryChange[] {
+  const merged = new Map<string, InventoryChange>();
+
+  for (const change of changes) {
+    const key = inventoryLevelKey(change.inventoryItemId, change.locationId);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.delta += change.delta;
+    } else {
+      merged.set(key, { ...change });
+    }
+  }
+
+  return Array.from(merged.values()).filter(change => change.delta !== 0);
+}
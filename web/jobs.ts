@@ -0,0 +1,318 @@
+import crypto from 'crypto';
+import { Gauge } from 'prom-client';
+import { JsonStore } from './store.js';
+import { createLogger, correlationId, withLogContext } from './logger.js';
+import { registry, jobsProcessed, jobDuration } from './metrics.js';
+
+export type JobStatus = 'pending' | 'running' | 'dead';
+
+export interface Job {
+  id: string;
+  topic: string;
+  shop: string;
+  webhookId: string | null;
+  // Carried over from the request that queued the job
+  correlationId?: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+}
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+/**
+ * Thrown by a handler when retrying can't help until something is fixed by
+ * hand, e.g. a bundle config. The job goes straight to the dead-letter list,
+ * from where it can be retried once the cause is fixed.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Jobs run one at a time per lane. Webhook jobs get a lane of their own so a
+ * full-shop reconcile or price sync never holds up order processing.
+ */
+export type JobLane = 'webhooks' | 'maintenance';
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  lane: JobLane;
+}
+
+interface JobData {
+  jobs: Record<string, Job>;
+}
+
+const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 8);
+const JOB_BASE_DELAY_MS = Number(process.env.JOB_BASE_DELAY_MS || 5000);
+const JOB_MAX_DELAY_MS = 60 * 60 * 1000;
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'dead'];
+const JOB_LANES: JobLane[] = ['webhooks', 'maintenance'];
+
+const log = createLogger('jobs');
+
+/**
+ * Exponential backoff with full jitter: 0..base * 2^(attempt - 1), capped.
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(JOB_MAX_DELAY_MS, JOB_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Persistent job queue for webhook processing. Jobs are written to disk before
+ * the webhook is acknowledged, retried with exponential backoff when their
+ * handler throws, and moved to the dead-letter list after JOB_MAX_ATTEMPTS (or
+ * at once for a PermanentJobError).
+ * Completed jobs are removed. Each lane is drained serially, and only once
+ * the queue has been started.
+ */
+export class JobQueue {
+  private store = new JsonStore<JobData>('jobs', { jobs: {} });
+  private handlers = new Map<string, RegisteredHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private draining = new Set<JobLane>();
+
+  constructor() {
+    // Jobs that were running when the process stopped are picked up again
+    this.store.update(data => {
+      for (const job of Object.values(data.jobs)) {
+        if (job.status === 'running') {
+          job.status = 'pending';
+        }
+      }
+    });
+  }
+
+  register(topic: string, handler: JobHandler, lane: JobLane = 'webhooks'): void {
+    this.handlers.set(topic, { handler, lane });
+  }
+
+  enqueue(topic: string, shop: string, payload: any, webhookId: string | null): Job {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      topic,
+      shop,
+      webhookId,
+      correlationId: correlationId(),
+      payload,
+      status: 'pending',
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.update(data => {
+      data.jobs[job.id] = job;
+    });
+
+    this.wake(topic);
+    return job;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      for (const lane of JOB_LANES) {
+        this.drain(lane);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  list(status?: JobStatus): Job[] {
+    return Object.values(this.store.get().jobs)
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  get(id: string): Job | null {
+    return this.store.get().jobs[id] || null;
+  }
+
+  retry(id: string): Job | null {
+    const job = this.store.update(data => {
+      const existing = data.jobs[id];
+      if (!existing || existing.status === 'running') return null;
+
+      existing.status = 'pending';
+      existing.attempts = 0;
+      existing.runAt = new Date().toISOString();
+      existing.updatedAt = existing.runAt;
+      return existing;
+    });
+
+    if (job) this.wake(job.topic);
+    return job;
+  }
+
+  discard(id: string): boolean {
+    return this.store.update(data => {
+      const existing = data.jobs[id];
+      if (!existing || existing.status === 'running') return false;
+
+      delete data.jobs[id];
+      return true;
+    });
+  }
+
+  /**
+   * Replaces the payload of the shop's jobs that `matches` selects, including
+   * running ones (whose handler keeps the payload it started with). Returns
+   * how many were rewritten.
+   */
+  rewritePayloads(shop: string, matches: (job: Job) => boolean, rewrite: (payload: any) => any): number {
+    return this.store.update(data => {
+      let rewritten = 0;
+      for (const job of Object.values(data.jobs)) {
+        if (job.shop === shop && matches(job)) {
+          job.payload = rewrite(job.payload);
+          rewritten++;
+        }
+      }
+      return rewritten;
+    });
+  }
+
+  /**
+   * Deletes the shop's jobs that aren't running, or only those `matches`
+   * selects. Returns how many were deleted.
+   */
+  purge(shop: string, matches: (job: Job) => boolean = () => true): number {
+    return this.store.update(data => {
+      let purged = 0;
+      for (const job of Object.values(data.jobs)) {
+        if (job.shop === shop && job.status !== 'running' && matches(job)) {
+          delete data.jobs[job.id];
+          purged++;
+        }
+      }
+      return purged;
+    });
+  }
+
+  private laneOf(topic: string): JobLane {
+    return this.handlers.get(topic)?.lane ?? 'webhooks';
+  }
+
+  // Runs a newly due job right away rather than at the next poll
+  private wake(topic: string): void {
+    if (!this.timer) return;
+
+    const lane = this.laneOf(topic);
+    setImmediate(() => this.drain(lane));
+  }
+
+  private nextDueJob(lane: JobLane): Job | null {
+    const now = new Date().toISOString();
+    return this.list('pending').find(job => job.runAt <= now && this.laneOf(job.topic) === lane) || null;
+  }
+
+  private async drain(lane: JobLane): Promise<void> {
+    if (this.draining.has(lane)) return;
+    this.draining.add(lane);
+
+    try {
+      let job = this.nextDueJob(lane);
+      while (job) {
+        await this.run(job.id);
+        job = this.nextDueJob(lane);
+      }
+    } finally {
+      this.draining.delete(lane);
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = this.store.update(data => {
+      const existing = data.jobs[id];
+      existing.status = 'running';
+      existing.attempts++;
+      existing.updatedAt = new Date().toISOString();
+      return { ...existing };
+    });
+
+    const endTimer = jobDuration.startTimer({ topic: job.topic });
+    const jobContext = {
+      correlationId: job.correlationId,
+      jobId: job.id,
+      topic: job.topic,
+      shop: job.shop,
+      ...(job.webhookId ? { webhookId: job.webhookId } : {}),
+    };
+
+    try {
+      const registered = this.handlers.get(job.topic);
+      if (!registered) {
+        throw new Error(`No handler registered for ${job.topic}`);
+      }
+
+      await withLogContext(jobContext, () => registered.handler(job));
+
+      this.store.update(data => {
+        delete data.jobs[id];
+      });
+      jobsProcessed.inc({ topic: job.topic, outcome: 'succeeded' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      this.store.update(data => {
+        const existing = data.jobs[id];
+        if (!existing) return;
+
+        existing.lastError = message;
+        existing.updatedAt = new Date().toISOString();
+
+        if (error instanceof PermanentJobError || existing.attempts >= JOB_MAX_ATTEMPTS) {
+          existing.status = 'dead';
+          log.error('Job moved to dead-letter', { ...jobContext, attempts: existing.attempts, error: message });
+          jobsProcessed.inc({ topic: job.topic, outcome: 'dead' });
+        } else {
+          const delay = backoffDelay(existing.attempts);
+          existing.status = 'pending';
+          existing.runAt = new Date(Date.now() + delay).toISOString();
+          log.warn('Job failed, retrying', { ...jobContext, attempts: existing.attempts, retryInMs: delay, error: message });
+          jobsProcessed.inc({ topic: job.topic, outcome: 'retried' });
+        }
+      });
+    } finally {
+      endTimer();
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
+
+new Gauge({
+  name: 'bundle_jobs',
+  help: 'Background jobs in the queue by status',
+  labelNames: ['status'] as const,
+  registers: [registry],
+  collect() {
+    const jobs = jobQueue.list();
+    for (const status of JOB_STATUSES) {
+      this.set({ status }, jobs.filter(job => job.status === status).length);
+    }
+  },
+});
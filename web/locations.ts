@@ -0,0 +1,116 @@
+import type { ShopifyGraphQL } from './graphql.js';
+import type {
+  ShopifyLineItem,
+  FulfillmentLocationAssignment,
+  LocationAllocation,
+} from './types.js';
+import { createLogger } from './logger.js';
+
+export type LocationFallbackPolicy = 'default' | 'primary' | 'skip';
+
+const log = createLogger('locations');
+
+const SHOPIFY_LOCATION_ID = process.env.SHOPIFY_LOCATION_ID || '';
+const LOCATION_FALLBACK = (process.env.LOCATION_FALLBACK || (SHOPIFY_LOCATION_ID ? 'default' : 'primary')) as LocationFallbackPolicy;
+
+if (!['default', 'primary', 'skip'].includes(LOCATION_FALLBACK)) {
+  log.error('LOCATION_FALLBACK must be one of default, primary, skip', { value: LOCATION_FALLBACK });
+  process.exit(1);
+}
+
+if (LOCATION_FALLBACK === 'default' && !SHOPIFY_LOCATION_ID) {
+  log.error('LOCATION_FALLBACK=default requires SHOPIFY_LOCATION_ID');
+  process.exit(1);
+}
+
+export function locationGid(locationId: number | string): string {
+  return String(locationId).startsWith('gid://') ? String(locationId) : `gid://shopify/Location/${locationId}`;
+}
+
+/**
+ * Works out which locations an order's line items are stocked from, in order
+ * of preference:
+ *
+ * 1. `location_id` on the line item
+ * 2. `location_id` on the order (POS orders)
+ * 3. the locations the order's fulfillment orders are assigned to, which may
+ *    split one line item across several locations
+ * 4. the LOCATION_FALLBACK policy for whatever quantity is left
+ *
+ * Fulfillment orders are fetched once per order and reused for every line item.
+ */
+export class OrderLocationResolver {
+  private assignments: Promise<FulfillmentLocationAssignment[]> | null = null;
+  private fallbackLocation: Promise<string | null> | null = null;
+
+  constructor(
+    private client: ShopifyGraphQL,
+    private order: { id: number; location_id?: number | null }
+  ) {}
+
+  async resolve(lineItem: ShopifyLineItem, quantity: number): Promise<LocationAllocation[]> {
+    const directLocation = lineItem.location_id || this.order.location_id;
+    if (directLocation) {
+      return [{ locationId: locationGid(directLocation), quantity }];
+    }
+
+    const allocations: LocationAllocation[] = [];
+    let remaining = quantity;
+
+    const lineItemGid = `gid://shopify/LineItem/${lineItem.id}`;
+    const assignments = (await this.getAssignments()).filter(a => a.lineItemId === lineItemGid);
+
+    for (const assignment of assignments) {
+      if (remaining <= 0) break;
+
+      const allocated = Math.min(remaining, assignment.quantity);
+      addAllocation(allocations, assignment.locationId, allocated);
+      remaining -= allocated;
+    }
+
+    if (remaining > 0) {
+      const fallback = await this.getFallbackLocation();
+      if (fallback) {
+        addAllocation(allocations, fallback, remaining);
+      } else {
+        log.warn('No location for line item', { title: lineItem.title, quantity: remaining, fallbackPolicy: LOCATION_FALLBACK });
+      }
+    }
+
+    return allocations;
+  }
+
+  private getAssignments(): Promise<FulfillmentLocationAssignment[]> {
+    if (!this.assignments) {
+      this.assignments = this.client.getFulfillmentLocations(`gid://shopify/Order/${this.order.id}`);
+    }
+    return this.assignments;
+  }
+
+  private getFallbackLocation(): Promise<string | null> {
+    if (!this.fallbackLocation) {
+      this.fallbackLocation = resolveFallbackLocation(this.client);
+    }
+    return this.fallbackLocation;
+  }
+}
+
+export async function resolveFallbackLocation(client: ShopifyGraphQL): Promise<string | null> {
+  switch (LOCATION_FALLBACK) {
+    case 'default':
+      return SHOPIFY_LOCATION_ID;
+    case 'primary':
+      return client.getPrimaryLocationId();
+    case 'skip':
+      return null;
+  }
+}
+
+function addAllocation(allocations: LocationAllocation[], locationId: string, quantity: number): void {
+  const existing = allocations.find(a => a.locationId === locationId);
+  if (existing) {
+    existing.quantity += quantity;
+  } else {
+    allocations.push({ locationId, quantity });
+  }
+}
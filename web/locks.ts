@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Serializes async tasks that share a key. Tasks for the same key run one at a
+ * time in arrival order; tasks for different keys run concurrently.
+ *
+ * The lock is reentrant within an async call chain, so a task holding a key can
+ * call code that takes the same key without deadlocking.
+ */
+export class KeyedLock {
+  private tails = new Map<string, Promise<void>>();
+  private held = new AsyncLocalStorage<Set<string>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const heldKeys = this.held.getStore();
+    if (heldKeys?.has(key)) {
+      return task();
+    }
+
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+
+    try {
+      return await this.held.run(new Set([...(heldKeys || []), key]), task);
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Holds every key for the duration of `task`. Keys are always taken in
+   * sorted order so overlapping multi-key tasks cannot deadlock.
+   */
+  async runAll<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+    const sortedKeys = Array.from(new Set(keys)).sort();
+
+    const acquire = (index: number): Promise<T> => {
+      if (index === sortedKeys.length) return task();
+      return this.run(sortedKeys[index], () => acquire(index + 1));
+    };
+
+    return acquire(0);
+  }
+}
+
+export const inventoryLocks = new KeyedLock();
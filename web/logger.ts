@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const LOG_LEVEL = (process.env.LOG_LEVEL || 'info') as LogLevel;
+
+/**
+ * Fields attached to every log line written inside `withLogContext`, so the
+ * lines for one webhook delivery or order can be found together.
+ */
+export interface LogContext {
+  correlationId?: string;
+  webhookId?: string;
+  jobId?: string;
+  topic?: string;
+  shop?: string;
+  orderId?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export function withLogContext<T>(additions: LogContext, task: () => T): T {
+  return context.run({ ...context.getStore(), ...additions }, task);
+}
+
+/**
+ * The current correlation ID, or a new one when there is none.
+ */
+export function correlationId(): string {
+  return context.getStore()?.correlationId || crypto.randomUUID();
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * One JSON object per line: time, level, component, message, the current
+ * log context and any fields given.
+ */
+export class Logger {
+  constructor(private component: string) {}
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+    if (LEVELS[level] < (LEVELS[LOG_LEVEL] ?? LEVELS.info)) return;
+
+    const line: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg: message,
+      ...context.getStore(),
+    };
+
+    for (const [key, value] of Object.entries(fields)) {
+      line[key] = serialize(value);
+    }
+
+    const output = JSON.stringify(line) + '\n';
+    if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(output);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
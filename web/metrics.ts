@@ -0,0 +1,70 @@
+import { Registry, Counter, Histogram, collectDefaultMetrics } from 'prom-client';
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const webhooksReceived = new Counter({
+  name: 'bundle_webhooks_received_total',
+  help: 'Webhook deliveries by topic and outcome (queued, duplicate, in_flight, invalid_signature, error)',
+  labelNames: ['topic', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const jobsProcessed = new Counter({
+  name: 'bundle_jobs_processed_total',
+  help: 'Background job attempts by topic and outcome (succeeded, retried, dead)',
+  labelNames: ['topic', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const jobDuration = new Histogram({
+  name: 'bundle_job_duration_seconds',
+  help: 'Time spent processing a background job attempt',
+  labelNames: ['topic'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [registry],
+});
+
+export const inventoryChanges = new Counter({
+  name: 'bundle_inventory_changes_total',
+  help: 'Inventory quantity changes sent to Shopify by operation (adjust, set) and outcome (applied, failed)',
+  labelNames: ['operation', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const graphqlRequests = new Counter({
+  name: 'bundle_shopify_graphql_requests_total',
+  help: 'Shopify Admin GraphQL requests by operation and outcome',
+  labelNames: ['operation', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const graphqlDuration = new Histogram({
+  name: 'bundle_shopify_graphql_request_duration_seconds',
+  help: 'Shopify Admin GraphQL request latency',
+  labelNames: ['operation'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
+  registers: [registry],
+});
+
+export const graphqlThrottles = new Counter({
+  name: 'bundle_shopify_graphql_throttles_total',
+  help: 'Requests Shopify throttled, and waits for the query cost budget to refill',
+  labelNames: ['kind'] as const,
+  registers: [registry],
+});
+
+export const alertsSent = new Counter({
+  name: 'bundle_stock_alerts_total',
+  help: 'Bundle stock alerts by type (low_stock, out_of_stock) and outcome (sent, debounced, failed)',
+  labelNames: ['type', 'outcome'] as const,
+  registers: [registry],
+});
+
+/**
+ * The operation name of a GraphQL document, e.g. `GetBundleConfigs`.
+ */
+export function operationName(query: string): string {
+  return /\b(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || 'anonymous';
+}
@@ -0,0 +1,100 @@
+import { skipInvalidConfig } from './graphql.js';
+import type { ShopifyGraphQL } from './graphql.js';
+import { bundleIndex } from './bundle-index.js';
+import { getBundleComponents, hasComponents, componentLabel } from './bundles.js';
+import { componentInventoryId, expandComponents } from './inventory.js';
+import { applyPricingRule } from '../shared/bundle-config.js';
+import { createLogger } from './logger.js';
+import type { BundleConfig, BundleProduct, VariantPriceUpdate } from './types.js';
+
+const log = createLogger('pricing');
+
+function formatMoney(amount: number | null): string | null {
+  return amount === null ? null : amount.toFixed(2);
+}
+
+/**
+ * Recomputes the price and compare-at price of every variant of a bundle
+ * from its pricing rule and current component prices, writing only the
+ * variants that changed in one `productVariantsBulkUpdate` call.
+ */
+export async function syncBundlePrices(client: ShopifyGraphQL, bundleProductId: string, bundleConfig: BundleConfig): Promise<void> {
+  const rule = bundleConfig.pricing;
+  if (!rule || !hasComponents(bundleConfig)) return;
+
+  const hasGroups = (bundleConfig.groups || []).length > 0;
+  const variants = await client.getProductVariants(bundleProductId);
+
+  // Nested bundles are priced from their leaf components
+  const configCache = new Map<string, BundleConfig | null>();
+  const variantComponents = new Map<string, BundleProduct[]>();
+  for (const variant of variants) {
+    const expanded = await expandComponents(client, bundleProductId, getBundleComponents(bundleConfig, variant.id), configCache);
+    variantComponents.set(variant.id, expanded.components);
+  }
+
+  const prices = await client.getComponentPrices(
+    Array.from(variantComponents.values()).flat().map(componentInventoryId)
+  );
+
+  const updates: VariantPriceUpdate[] = [];
+
+  for (const variant of variants) {
+    let componentTotal: number | null = null;
+
+    if (!hasGroups) {
+      componentTotal = 0;
+      for (const component of variantComponents.get(variant.id) || []) {
+        const price = prices.get(componentInventoryId(component));
+        if (price === undefined) {
+          log.warn('No component price - skipping variant', { component: componentLabel(component), variant: variant.title });
+          componentTotal = null;
+          break;
+        }
+        componentTotal += Number(price) * component.quantity;
+      }
+
+      if (componentTotal === null) continue;
+    }
+
+    const bundlePrice = applyPricingRule(rule, componentTotal);
+    if (!bundlePrice) continue;
+
+    const price = formatMoney(bundlePrice.price) as string;
+    const compareAtPrice = formatMoney(bundlePrice.compareAtPrice);
+
+    const currentCompareAt = variant.compareAtPrice == null ? null : Number(variant.compareAtPrice).toFixed(2);
+    if (Number(variant.price).toFixed(2) === price && currentCompareAt === compareAtPrice) continue;
+
+    log.info('Repricing bundle variant', {
+      bundleProductId,
+      variant: variant.title,
+      from: variant.price,
+      price,
+      compareAtPrice,
+    });
+    updates.push({ id: variant.id, price, compareAtPrice });
+  }
+
+  await client.updateVariantPrices(bundleProductId, updates);
+}
+
+/**
+ * Reprices every bundle that contains the product, then the bundles that
+ * contain those bundles, after the product's price may have changed.
+ */
+export async function syncParentBundlePrices(client: ShopifyGraphQL, componentProductId: string, synced = new Set<string>()): Promise<void> {
+  const bundleProductIds = (await bundleIndex.getBundlesForComponent(client, client.shop, componentProductId))
+    .filter(bundleProductId => !synced.has(bundleProductId));
+
+  for (const bundleProductId of bundleProductIds) {
+    synced.add(bundleProductId);
+
+    const bundleConfig = await client.getBundleConfig(bundleProductId).catch(skipInvalidConfig);
+    if (bundleConfig?.pricing) {
+      await syncBundlePrices(client, bundleProductId, bundleConfig);
+    }
+
+    await syncParentBundlePrices(client, bundleProductId, synced);
+  }
+}
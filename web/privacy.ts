@@ -0,0 +1,124 @@
+import { alertNotifier } from './alerts.js';
+import { auditLog } from './audit.js';
+import { needsAttention } from './attention.js';
+import { bundleIndex } from './bundle-index.js';
+import { processedWebhooks } from './idempotency.js';
+import { jobQueue } from './jobs.js';
+import { reconcileReports } from './reconcile.js';
+import { shopTokens } from './shops.js';
+import type { Job } from './jobs.js';
+
+/**
+ * Records kept about a shop's orders, per store. Order webhooks waiting in
+ * the job queue are the only place customer details (names, addresses,
+ * emails) are held; everything else refers to orders by ID.
+ */
+export interface StoredOrderData {
+  jobs: number;
+  auditEntries: number;
+  processedLineItems: number;
+  attentionRecords: number;
+}
+
+export interface CustomerRedaction {
+  // Queued jobs whose payload had the customer's details removed
+  jobs: number;
+  auditEntries: number;
+  attentionRecords: number;
+}
+
+export interface ShopPurgeSummary extends StoredOrderData {
+  processedWebhooks: number;
+  reconcileReports: number;
+  alertStates: number;
+  accessToken: boolean;
+}
+
+// Order and refund fields that identify the customer. Job handlers only need
+// the IDs, line items and refund line items.
+const CUSTOMER_FIELDS = [
+  'customer',
+  'email',
+  'contact_email',
+  'phone',
+  'billing_address',
+  'shipping_address',
+  'note',
+  'note_attributes',
+  'browser_ip',
+  'client_details',
+  'transactions',
+];
+
+function withoutCustomerFields(payload: any): any {
+  if (!payload || typeof payload !== 'object') return payload;
+
+  const redacted = { ...payload };
+  for (const field of CUSTOMER_FIELDS) {
+    delete redacted[field];
+  }
+  if (Array.isArray(redacted.refunds)) {
+    redacted.refunds = redacted.refunds.map(withoutCustomerFields);
+  }
+  return redacted;
+}
+
+/**
+ * The order an order or refund webhook job is for.
+ */
+function jobOrderId(job: Job): string | null {
+  if (job.topic.startsWith('orders/')) return job.payload?.id != null ? String(job.payload.id) : null;
+  if (job.topic === 'refunds/create') return job.payload?.order_id != null ? String(job.payload.order_id) : null;
+  return null;
+}
+
+/**
+ * What we hold for the given orders, for a customers/data_request.
+ */
+export function findCustomerData(shop: string, orderIds: string[]): StoredOrderData {
+  const orderJob = (job: Job) => job.shop === shop && orderIds.includes(jobOrderId(job) || '');
+
+  return {
+    jobs: jobQueue.list().filter(orderJob).length,
+    auditEntries: auditLog.list({ shop }).filter(entry => orderIds.includes(entry.orderId || '')).length,
+    processedLineItems: processedWebhooks.list({ shop, orderIds }).lineItems.length,
+    attentionRecords: needsAttention.list(shop, true).filter(record => orderIds.includes(record.orderId)).length,
+  };
+}
+
+/**
+ * Removes the customer's details kept about the given orders, for a
+ * customers/redact. Queued jobs still run, without the customer fields, and
+ * the processed line item records are kept (they hold only IDs) so a
+ * redelivered webhook is not deducted twice.
+ */
+export function redactCustomerData(shop: string, orderIds: string[]): CustomerRedaction {
+  return {
+    jobs: jobQueue.rewritePayloads(shop, job => orderIds.includes(jobOrderId(job) || ''), withoutCustomerFields),
+    auditEntries: auditLog.purge(shop, orderIds),
+    attentionRecords: needsAttention.purge(shop, orderIds),
+  };
+}
+
+/**
+ * Deletes everything kept about a shop, for a shop/redact (sent 48 hours
+ * after the app is uninstalled).
+ */
+export function redactShopData(shop: string): ShopPurgeSummary {
+  const processed = processedWebhooks.list({ shop });
+  const processedLineItems = processed.lineItems.length;
+  const processedWebhookCount = processedWebhooks.purge({ shop }) - processedLineItems;
+
+  bundleIndex.clearShop(shop);
+
+  return {
+    jobs: jobQueue.purge(shop),
+    auditEntries: auditLog.purge(shop),
+    processedLineItems,
+    processedWebhooks: processedWebhookCount,
+    attentionRecords: needsAttention.purge(shop),
+    reconcileReports: reconcileReports.purge(shop),
+    alertStates: alertNotifier.purge(shop),
+    accessToken: shopTokens.remove(shop),
+  };
+}
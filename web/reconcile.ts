@@ -0,0 +1,176 @@
+import type { ShopifyGraphQL } from './graphql.js';
+import { JsonStore } from './store.js';
+import { jobQueue } from './jobs.js';
+import { listShopDomains } from './shops.js';
+import { hasComponents } from './bundles.js';
+import { reconcileBundleInventory } from './inventory.js';
+import { createLogger } from './logger.js';
+import type { Job } from './jobs.js';
+import type { BundleConfig, BundleLevelCorrection } from './types.js';
+
+// 0 disables the scheduled run
+const RECONCILE_INTERVAL_MINUTES = Number(process.env.RECONCILE_INTERVAL_MINUTES ?? 360);
+const RECONCILE_REPORT_ONLY = process.env.RECONCILE_REPORT_ONLY === 'true';
+const RECONCILE_REPORTS_KEPT = 50;
+
+const log = createLogger('reconcile');
+
+export const RECONCILE_TOPIC = 'inventory/reconcile';
+
+export type ReconcileTrigger = 'schedule' | 'manual' | 'import' | 'resync';
+
+export interface ReconcileReport {
+  // ID of the job that produced it
+  id: string;
+  shop: string;
+  trigger: ReconcileTrigger;
+  reportOnly: boolean;
+  // Set when only these bundles were reconciled
+  productIds?: string[];
+  startedAt: string;
+  finishedAt: string;
+  bundlesChecked: number;
+  bundlesDrifted: number;
+  corrections: BundleLevelCorrection[];
+  errors: Array<{ productId: string; error: string }>;
+}
+
+interface ReconcileData {
+  reports: ReconcileReport[];
+}
+
+/**
+ * The most recent reconciliation reports, oldest dropped first.
+ */
+export class ReconcileReportStore {
+  private store = new JsonStore<ReconcileData>('reconcile-reports', { reports: [] });
+
+  save(report: ReconcileReport): void {
+    this.store.update(data => {
+      data.reports = data.reports.filter(existing => existing.id !== report.id);
+      data.reports.push(report);
+      if (data.reports.length > RECONCILE_REPORTS_KEPT) {
+        data.reports.splice(0, data.reports.length - RECONCILE_REPORTS_KEPT);
+      }
+    });
+  }
+
+  /** Newest first. */
+  list(shop?: string): ReconcileReport[] {
+    return this.store.get().reports
+      .filter(report => !shop || report.shop === shop)
+      .reverse();
+  }
+
+  purge(shop: string): number {
+    return this.store.update(data => {
+      const before = data.reports.length;
+      data.reports = data.reports.filter(report => report.shop !== shop);
+      return before - data.reports.length;
+    });
+  }
+
+  get(id: string): ReconcileReport | null {
+    return this.store.get().reports.find(report => report.id === id) || null;
+  }
+}
+
+export const reconcileReports = new ReconcileReportStore();
+
+/**
+ * Recomputes every bundle in the shop (or only `productIds`) from its
+ * component stock and corrects the levels that drifted, e.g. after restocks,
+ * manual edits or imports that never went through an order. A bundle that
+ * fails is recorded in the report and the rest are still reconciled.
+ */
+export async function reconcileShop(
+  client: ShopifyGraphQL,
+  id: string,
+  trigger: ReconcileTrigger,
+  reportOnly: boolean,
+  productIds?: string[]
+): Promise<ReconcileReport> {
+  const startedAt = new Date().toISOString();
+  const allBundles = (await client.getBundleProducts()).filter(bundle => hasComponents(bundle.config));
+  const bundles = productIds ? allBundles.filter(bundle => productIds.includes(bundle.productId)) : allBundles;
+
+  log.info('Checking bundles', { shop: client.shop, bundles: bundles.length, reportOnly });
+
+  const report: ReconcileReport = {
+    id,
+    shop: client.shop,
+    trigger,
+    reportOnly,
+    ...(productIds && { productIds }),
+    startedAt,
+    finishedAt: startedAt,
+    bundlesChecked: 0,
+    bundlesDrifted: 0,
+    corrections: [],
+    errors: [],
+  };
+
+  // Nested bundles are shared between their parents' expansions
+  const configCache = new Map<string, BundleConfig | null>(allBundles.map(bundle => [bundle.productId, bundle.config]));
+
+  for (const bundle of bundles) {
+    try {
+      const corrections = await reconcileBundleInventory(client, bundle.productId, bundle.config, { reportOnly, configCache });
+
+      report.bundlesChecked++;
+      if (corrections.length > 0) {
+        report.bundlesDrifted++;
+        report.corrections.push(...corrections);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Failed to reconcile bundle', { productId: bundle.productId, title: bundle.title, error: message });
+      report.errors.push({ productId: bundle.productId, error: message });
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+
+  log.info('Reconciliation finished', {
+    shop: client.shop,
+    reportOnly,
+    bundlesChecked: report.bundlesChecked,
+    bundlesDrifted: report.bundlesDrifted,
+    corrections: report.corrections.length,
+    errors: report.errors.length,
+  });
+
+  return report;
+}
+
+/**
+ * Queues a reconciliation for the shop, of every bundle or only `productIds`,
+ * unless one of the same kind covering them is still waiting to run. A running
+ * one may have read the stock before the change that prompted this call.
+ */
+export function enqueueReconcile(shop: string, trigger: ReconcileTrigger, reportOnly: boolean, productIds?: string[]): Job {
+  const queued = jobQueue.list().find(job =>
+    job.topic === RECONCILE_TOPIC && job.shop === shop && job.status === 'pending' && job.payload.reportOnly === reportOnly
+      && (!job.payload.productIds || (productIds && productIds.every(productId => job.payload.productIds.includes(productId))))
+  );
+  if (queued) return queued;
+
+  return jobQueue.enqueue(RECONCILE_TOPIC, shop, { trigger, reportOnly, ...(productIds && { productIds }) }, null);
+}
+
+/**
+ * Queues a reconciliation of every shop each RECONCILE_INTERVAL_MINUTES.
+ */
+export function startReconcileSchedule(): void {
+  if (!(RECONCILE_INTERVAL_MINUTES > 0)) {
+    log.info('Scheduled reconciliation disabled');
+    return;
+  }
+
+  setInterval(() => {
+    for (const shop of listShopDomains()) {
+      const job = enqueueReconcile(shop, 'schedule', RECONCILE_REPORT_ONLY);
+      log.info('Queued scheduled reconciliation', { shop, jobId: job.id });
+    }
+  }, RECONCILE_INTERVAL_MINUTES * 60 * 1000).unref();
+}
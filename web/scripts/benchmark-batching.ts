@@ -0,0 +1,331 @@
+/**
+ * Compares the number of Admin API requests needed to process one bundle
+ * order line item with the original per-component calls versus the batched
+ * `nodes` / multi-change mutation flow in inventory.ts.
+ *
+ * Runs entirely against a mocked GraphQL endpoint, with the server's stores
+ * in a temporary DATA_DIR and alert senders disabled:
+ *
+ *   npm run benchmark -- [componentCount]
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BUNDLE_CONFIG_VERSION } from '../../shared/bundle-config.js';
+import type { ShopifyGraphQL } from '../graphql.js';
+import type { BundleConfig, ShopifyLineItem } from '../types.js';
+
+// Set before the server modules are imported in main(): their stores and
+// alert senders read the environment when they load
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-benchmark-'));
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+process.env.DATA_DIR = dataDir;
+for (const name of ['ALERT_WEBHOOK_URL', 'SMTP_URL', 'ALERT_EMAIL_FROM', 'ALERT_EMAIL_TO']) {
+  delete process.env[name];
+}
+
+const COMPONENT_COUNT = Number(process.argv[2] || 10);
+const LOCATION_ID = 'gid://shopify/Location/1';
+const BUNDLE_PRODUCT_ID = 'gid://shopify/Product/1000';
+const BUNDLE_VARIANT_ID = 'gid://shopify/ProductVariant/1000';
+const BUNDLE_INVENTORY_ITEM_ID = 'gid://shopify/InventoryItem/1000';
+
+const config: BundleConfig = {
+  version: BUNDLE_CONFIG_VERSION,
+  isBundle: true,
+  products: Array.from({ length: COMPONENT_COUNT }, (_, i) => ({
+    productId: `gid://shopify/Product/${i + 1}`,
+    quantity: 2,
+    title: `Component ${i + 1}`,
+  })),
+};
+
+const lineItem: ShopifyLineItem = {
+  id: 1,
+  product_id: 1000,
+  variant_id: 1000,
+  title: 'Benchmark Bundle',
+  quantity: 1,
+  price: '0.00',
+  sku: '',
+  requires_shipping: true,
+};
+
+// --- Mock Admin API -------------------------------------------------------
+
+let levels = new Map<string, number>();
+let requests = new Map<string, number>();
+
+function inventoryItemFor(id: string): string {
+  return id === BUNDLE_PRODUCT_ID || id === BUNDLE_VARIANT_ID
+    ? BUNDLE_INVENTORY_ITEM_ID
+    : id.replace(/Product(Variant)?/, 'InventoryItem');
+}
+
+function inventoryItemNode(inventoryItemId: string) {
+  return {
+    id: inventoryItemId,
+    tracked: true,
+    inventoryLevels: {
+      edges: [{
+        node: {
+          id: `${inventoryItemId}-level`,
+          location: { id: LOCATION_ID },
+          quantities: [{ name: 'available', quantity: levels.get(inventoryItemId) ?? 0 }],
+        },
+      }],
+    },
+  };
+}
+
+function respond(operation: string, variables: Record<string, any>): any {
+  switch (operation) {
+    case 'GetBundleConfig':
+      return {
+        product: {
+          id: variables.productId,
+          title: 'Benchmark Bundle',
+          metafield: variables.productId === BUNDLE_PRODUCT_ID
+            ? { id: 'gid://shopify/Metafield/1', namespace: 'custom', key: 'bundle_config', value: JSON.stringify(config), type: 'json' }
+            : null,
+        },
+      };
+    case 'GetBundleConfigs':
+      return { nodes: variables.ids.map((id: string) => ({ id, metafield: null })) };
+    case 'GetInventoryItem':
+      return {
+        product: {
+          id: variables.productId,
+          variants: { edges: [{ node: { id: variables.productId, inventoryItem: { id: inventoryItemFor(variables.productId) } } }] },
+        },
+      };
+    case 'GetProductVariants':
+      return {
+        product: {
+          id: variables.productId,
+          variants: { edges: [{ node: { id: BUNDLE_VARIANT_ID, title: 'Default Title', inventoryItem: { id: BUNDLE_INVENTORY_ITEM_ID } } }] },
+        },
+      };
+    case 'GetInventoryLevels':
+      return { inventoryItem: inventoryItemNode(variables.inventoryItemId) };
+    case 'GetInventoryNodes':
+      return {
+        nodes: variables.ids.map((id: string) => id.includes('ProductVariant')
+          ? { id, inventoryItem: inventoryItemNode(inventoryItemFor(id)) }
+          : { id, variants: { edges: [{ node: { id, inventoryItem: inventoryItemNode(inventoryItemFor(id)) } }] } }
+        ),
+      };
+    case 'AdjustInventory':
+      levels.set(variables.inventoryItemId, (levels.get(variables.inventoryItemId) ?? 0) + variables.delta);
+      return { inventoryAdjustQuantities: { userErrors: [] } };
+    case 'AdjustInventoryBatch':
+      for (const change of variables.changes) {
+        levels.set(change.inventoryItemId, (levels.get(change.inventoryItemId) ?? 0) + change.delta);
+      }
+      return { inventoryAdjustQuantities: { userErrors: [] } };
+    case 'SetInventory':
+      levels.set(variables.inventoryItemId, variables.quantity);
+      return { inventorySetQuantities: { userErrors: [] } };
+    case 'SetInventoryBatch':
+      for (const quantity of variables.quantities) {
+        levels.set(quantity.inventoryItemId, quantity.quantity);
+      }
+      return { inventorySetQuantities: { userErrors: [] } };
+    default:
+      throw new Error(`Unexpected operation ${operation}`);
+  }
+}
+
+globalThis.fetch = async (_url: any, init?: any): Promise<Response> => {
+  const { query, variables } = JSON.parse(init.body);
+  const operation = /(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || 'unknown';
+
+  requests.set(operation, (requests.get(operation) || 0) + 1);
+
+  return new Response(JSON.stringify({ data: respond(operation, variables) }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+function reset(): void {
+  requests = new Map();
+  levels = new Map(config.products.map((product, i) => [inventoryItemFor(product.productId), 100 + i]));
+  levels.set(BUNDLE_INVENTORY_ITEM_ID, 0);
+}
+
+// --- Original per-component flow ------------------------------------------
+
+// The queries the server made before batching, one item at a time
+const GET_INVENTORY_ITEM = `
+  query GetInventoryItem($productId: ID!) {
+    product(id: $productId) {
+      id
+      variants(first: 1) {
+        edges {
+          node {
+            id
+            inventoryItem {
+              id
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const GET_INVENTORY_LEVELS = `
+  query GetInventoryLevels($inventoryItemId: ID!) {
+    inventoryItem(id: $inventoryItemId) {
+      id
+      tracked
+      inventoryLevels(first: 50) {
+        edges {
+          node {
+            id
+            location {
+              id
+            }
+            quantities(names: ["available"]) {
+              name
+              quantity
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ADJUST_INVENTORY = `
+  mutation AdjustInventory($inventoryItemId: ID!, $locationId: ID!, $delta: Int!) {
+    inventoryAdjustQuantities(
+      input: {
+        reason: "correction"
+        name: "available"
+        changes: [{ inventoryItemId: $inventoryItemId, locationId: $locationId, delta: $delta }]
+      }
+    ) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const SET_INVENTORY = `
+  mutation SetInventory($inventoryItemId: ID!, $locationId: ID!, $quantity: Int!) {
+    inventorySetQuantities(
+      input: {
+        reason: "correction"
+        name: "available"
+        quantities: [{ inventoryItemId: $inventoryItemId, locationId: $locationId, quantity: $quantity }]
+      }
+    ) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+async function getInventoryItemId(client: ShopifyGraphQL, productId: string): Promise<string | null> {
+  const result: any = await client.query(GET_INVENTORY_ITEM, { productId });
+  return result.data?.product?.variants?.edges?.[0]?.node?.inventoryItem?.id || null;
+}
+
+async function getAvailable(client: ShopifyGraphQL, inventoryItemId: string): Promise<number> {
+  const result: any = await client.query(GET_INVENTORY_LEVELS, { inventoryItemId });
+  const level = result.data?.inventoryItem?.inventoryLevels?.edges?.find((edge: any) => edge.node.location.id === LOCATION_ID);
+  return level?.node.quantities.find((q: any) => q.name === 'available')?.quantity ?? 0;
+}
+
+async function processLineItemUnbatched(client: ShopifyGraphQL): Promise<void> {
+  const bundleConfig = await client.getBundleConfig(BUNDLE_PRODUCT_ID);
+  if (!bundleConfig) return;
+
+  for (const component of bundleConfig.products) {
+    const inventoryItemId = await getInventoryItemId(client, component.productId);
+    if (!inventoryItemId) continue;
+
+    await client.query(ADJUST_INVENTORY, { inventoryItemId, locationId: LOCATION_ID, delta: -component.quantity * lineItem.quantity });
+  }
+
+  const variants = await client.getProductVariants(BUNDLE_PRODUCT_ID);
+  for (const variant of variants) {
+    if (!variant.inventoryItemId) continue;
+
+    await getAvailable(client, variant.inventoryItemId);
+
+    const available: number[] = [];
+    for (const component of bundleConfig.products) {
+      const inventoryItemId = await getInventoryItemId(client, component.productId);
+      if (!inventoryItemId) continue;
+
+      available.push(Math.floor(await getAvailable(client, inventoryItemId) / component.quantity));
+    }
+
+    await client.query(SET_INVENTORY, { inventoryItemId: variant.inventoryItemId, locationId: LOCATION_ID, quantity: Math.min(...available) });
+  }
+}
+
+// --- Run ------------------------------------------------------------------
+
+function total(counts: Map<string, number>): number {
+  return Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+}
+
+function report(label: string, counts: Map<string, number>): void {
+  console.log(`\n${label}: ${total(counts)} requests`);
+  for (const [operation, count] of counts) {
+    console.log(`  ${operation.padEnd(24)} ${count}`);
+  }
+}
+
+// Runs the task with the server's log output suppressed
+async function quietly(task: () => Promise<void>): Promise<void> {
+  const write = process.stdout.write;
+  process.stdout.write = () => true;
+  try {
+    await task();
+  } finally {
+    process.stdout.write = write;
+  }
+}
+
+async function main(): Promise<void> {
+  const { ShopifyGraphQL } = await import('../graphql.js');
+  const { adjustBundleComponents } = await import('../inventory.js');
+  const client = new ShopifyGraphQL('benchmark.myshopify.com', 'benchmark-token');
+
+  reset();
+  await quietly(() => processLineItemUnbatched(client));
+  const unbatched = requests;
+  const unbatchedLevel = levels.get(BUNDLE_INVENTORY_ITEM_ID);
+
+  reset();
+  await quietly(() => adjustBundleComponents(client, lineItem, [{ locationId: LOCATION_ID, quantity: -lineItem.quantity }]));
+  const batched = requests;
+  const batchedLevel = levels.get(BUNDLE_INVENTORY_ITEM_ID);
+
+  console.log(`Bundle with ${COMPONENT_COUNT} components, 1 line item, 1 location`);
+  report('Per-component calls', unbatched);
+  report('Batched calls', batched);
+
+  const reduction = Math.round((1 - total(batched) / total(unbatched)) * 100);
+  console.log(`\n${total(unbatched)} -> ${total(batched)} requests (${reduction}% fewer)`);
+  console.log(`Resulting bundle level: ${unbatchedLevel} (per-component) / ${batchedLevel} (batched)`);
+
+  if (unbatchedLevel !== batchedLevel) {
+    console.error('Bundle levels differ between the two flows');
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
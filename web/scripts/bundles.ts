@@ -0,0 +1,84 @@
+/**
+ * Exports and imports every bundle definition of a shop, using the access
+ * token the server stored for it (or SHOPIFY_SHOP / SHOPIFY_ACCESS_TOKEN):
+ *
+ *   npm run bundles -- export <shop> <file.csv|file.json>
+ *   npm run bundles -- import <shop> <file.csv|file.json> [--apply]
+ *
+ * An import prints the changes it would make and only writes them with
+ * --apply. Set LOG_LEVEL=warn to keep the server's logs out of the output.
+ */
+import fs from 'fs';
+import path from 'path';
+import { getShopClient } from '../shops.js';
+import { exportBundles, bundlesToCsv, importBundles } from '../bundle-io.js';
+import type { BundleFileFormat, BundleImportResult } from '../bundle-io.js';
+
+const USAGE = 'Usage: npm run bundles -- export <shop> <file.csv|file.json>\n'
+  + '       npm run bundles -- import <shop> <file.csv|file.json> [--apply]';
+
+function fileFormat(file: string): BundleFileFormat {
+  const extension = path.extname(file).toLowerCase();
+  if (extension !== '.csv' && extension !== '.json') {
+    throw new Error(`Expected a .csv or .json file, got "${file}"`);
+  }
+  return extension === '.csv' ? 'csv' : 'json';
+}
+
+function printResult(result: BundleImportResult): void {
+  for (const bundle of result.bundles) {
+    if (bundle.action === 'unchanged') continue;
+
+    console.log(`${bundle.action === 'create' ? 'Create' : 'Update'} ${bundle.title} (${bundle.productId})`);
+    for (const change of bundle.changes) {
+      console.log(`  ${change}`);
+    }
+  }
+
+  const counts = { create: 0, update: 0, unchanged: 0 };
+  for (const bundle of result.bundles) counts[bundle.action]++;
+  console.log(`\n${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged`);
+
+  if (result.errors.length > 0) {
+    console.log(`\n${result.errors.length} error(s)${result.applied ? '' : ' - nothing was written'}:`);
+    for (const error of result.errors) {
+      console.log(`  ${error.source}: ${error.message}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, shop, file] = process.argv.slice(2);
+  if (!shop || !file || (command !== 'export' && command !== 'import')) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const format = fileFormat(file);
+  const client = getShopClient(shop);
+
+  if (command === 'export') {
+    const bundleExport = await exportBundles(client);
+    fs.writeFileSync(file, format === 'csv' ? bundlesToCsv(bundleExport.bundles) : JSON.stringify(bundleExport, null, 2) + '\n');
+    console.log(`Exported ${bundleExport.bundles.length} bundle(s) to ${file}`);
+    return;
+  }
+
+  const apply = process.argv.includes('--apply');
+  const result = await importBundles(client, fs.readFileSync(file, 'utf8'), format, { apply });
+
+  printResult(result);
+
+  if (result.applied) {
+    console.log(`\nWrote ${result.written} bundle config(s). Run a reconciliation (POST /reconcile) to set their levels.`);
+  } else if (result.errors.length === 0) {
+    console.log('\nDry run - re-run with --apply to write these changes.');
+  }
+
+  if (result.errors.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { JsonStore } from './store.js';
+import { ShopifyGraphQL } from './graphql.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('shops');
+
+const TOKEN_ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY || '';
+
+// Single-store mode: a custom app token that is only ever used for SHOPIFY_SHOP
+const SHOPIFY_SHOP = process.env.SHOPIFY_SHOP || '';
+const SHOPIFY_ACCESS_TOKEN = process.env.SHOPIFY_ACCESS_TOKEN || '';
+
+// Legacy single-store mode: the shop the token was first used for
+let legacyShop = '';
+let legacyMismatchLogged = false;
+
+export interface InstalledShop {
+  shop: string;
+  scope: string;
+  installedAt: string;
+}
+
+interface StoredShop extends InstalledShop {
+  encryptedToken: string;
+}
+
+interface ShopData {
+  shops: Record<string, StoredShop>;
+}
+
+export class ShopNotInstalledError extends Error {
+  readonly shop: string;
+
+  constructor(shop: string) {
+    super(`No access token stored for ${shop || '(missing shop domain)'}`);
+    this.name = 'ShopNotInstalledError';
+    this.shop = shop;
+  }
+}
+
+export function isValidShopDomain(shop: string): boolean {
+  return /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/.test(shop);
+}
+
+function encryptionKey(): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(TOKEN_ENCRYPTION_KEY)
+    ? Buffer.from(TOKEN_ENCRYPTION_KEY, 'hex')
+    : Buffer.from(TOKEN_ENCRYPTION_KEY, 'base64');
+
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded');
+  }
+
+  return key;
+}
+
+/**
+ * AES-256-GCM, stored as `iv:authTag:ciphertext` in base64.
+ */
+function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+function decrypt(encrypted: string): string {
+  const [iv, authTag, ciphertext] = encrypted.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Offline access tokens for every shop that installed the app, encrypted at
+ * rest with TOKEN_ENCRYPTION_KEY.
+ */
+export class ShopTokenStore {
+  private store = new JsonStore<ShopData>('shops', { shops: {} });
+
+  save(shop: string, accessToken: string, scope: string): void {
+    this.store.update(data => {
+      data.shops[shop] = {
+        shop,
+        scope,
+        installedAt: new Date().toISOString(),
+        encryptedToken: encrypt(accessToken),
+      };
+    });
+  }
+
+  getAccessToken(shop: string): string | null {
+    const stored = this.store.get().shops[shop];
+    if (stored) {
+      return decrypt(stored.encryptedToken);
+    }
+
+    if (SHOPIFY_SHOP && shop === SHOPIFY_SHOP && SHOPIFY_ACCESS_TOKEN) {
+      return SHOPIFY_ACCESS_TOKEN;
+    }
+
+    if (isLegacySingleShopMode() && shop) {
+      legacyShop ||= shop;
+      if (shop === legacyShop) {
+        return SHOPIFY_ACCESS_TOKEN;
+      }
+
+      if (!legacyMismatchLogged) {
+        legacyMismatchLogged = true;
+        log.warn('SHOPIFY_ACCESS_TOKEN is only used for the first shop seen without SHOPIFY_SHOP; set SHOPIFY_SHOP', { shop, tokenShop: legacyShop });
+      }
+    }
+
+    return null;
+  }
+
+  remove(shop: string): boolean {
+    return this.store.update(data => {
+      if (!data.shops[shop]) return false;
+
+      delete data.shops[shop];
+      return true;
+    });
+  }
+
+  list(): InstalledShop[] {
+    return Object.values(this.store.get().shops).map(({ encryptedToken, ...shop }) => shop);
+  }
+}
+
+export const shopTokens = new ShopTokenStore();
+
+export function isSingleShopMode(): boolean {
+  return !!SHOPIFY_SHOP && !!SHOPIFY_ACCESS_TOKEN;
+}
+
+/**
+ * SHOPIFY_ACCESS_TOKEN without SHOPIFY_SHOP, as configured before OAuth
+ * support: the token is used for the shop of the first verified webhook, and
+ * no other shop gets it.
+ * Only without TOKEN_ENCRYPTION_KEY, since then no other shop's token can be
+ * stored.
+ */
+export function isLegacySingleShopMode(): boolean {
+  return !SHOPIFY_SHOP && !!SHOPIFY_ACCESS_TOKEN && !TOKEN_ENCRYPTION_KEY;
+}
+
+/**
+ * Every shop the server holds a token for, including the single-store shop.
+ */
+export function listShopDomains(): string[] {
+  const shops = shopTokens.list().map(installed => installed.shop);
+  if (isSingleShopMode() && !shops.includes(SHOPIFY_SHOP)) {
+    shops.push(SHOPIFY_SHOP);
+  }
+
+  return shops;
+}
+
+/**
+ * GraphQL client authenticated with the token stored for `shop`. Throws
+ * ShopNotInstalledError rather than ever using another shop's token.
+ */
+export function getShopClient(shop: string): ShopifyGraphQL {
+  const accessToken = shopTokens.getAccessToken(shop);
+  if (!accessToken) {
+    throw new ShopNotInstalledError(shop);
+  }
+
+  return new ShopifyGraphQL(shop, accessToken);
+}
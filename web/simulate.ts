@@ -0,0 +1,217 @@
+import { skipInvalidConfig } from './graphql.js';
+import type { ShopifyGraphQL } from './graphql.js';
+import { bundleIndex } from './bundle-index.js';
+import { hasComponents, componentLabel } from './bundles.js';
+import { OrderLocationResolver } from './locations.js';
+import {
+  componentInventoryId,
+  inventoryLevelKey,
+  reconcileBundleInventory,
+  resolveLineItemComponents,
+} from './inventory.js';
+import type { LineItemComponents } from './inventory.js';
+import type {
+  BundleConfig,
+  BundleLevelCorrection,
+  ShopifyOrder,
+  ShopifyLineItem,
+  LocationAllocation,
+} from './types.js';
+
+export interface SimulatedComponentChange {
+  lineItemId: number;
+  bundleProductId: string;
+  productId: string;
+  variantId: string | null;
+  title: string;
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+  // Null for untracked components
+  before: number | null;
+  after: number | null;
+}
+
+export interface SimulationWarning {
+  // Null for warnings about the order as a whole
+  lineItemId: number | null;
+  message: string;
+}
+
+export interface OrderSimulation {
+  orderId: number;
+  orderName: string;
+  componentChanges: SimulatedComponentChange[];
+  // Line items whose deduction would fail, changing none of their components
+  failedLineItems: number[];
+  // Bundle levels the order would leave, where they change
+  bundleLevels: BundleLevelCorrection[];
+  warnings: SimulationWarning[];
+}
+
+/**
+ * Works out what the orders/create handler would do for an order without
+ * writing anything: the component deltas it would apply, the bundle levels it
+ * would then set, and anything that would go wrong. Line items are applied
+ * one after another, so components shared between them are counted against
+ * the same stock.
+ */
+export async function simulateOrder(client: ShopifyGraphQL, order: ShopifyOrder): Promise<OrderSimulation> {
+  const simulation: OrderSimulation = {
+    orderId: order.id,
+    orderName: order.name,
+    componentChanges: [],
+    failedLineItems: [],
+    bundleLevels: [],
+    warnings: [],
+  };
+
+  const locations = new OrderLocationResolver(client, order);
+  const configCache = new Map<string, BundleConfig | null>();
+  const simulatedLevels = new Map<string, number>();
+  // Bundles to recompute once every line item is applied
+  const affectedBundles = new Map<string, BundleConfig>();
+
+  for (const lineItem of order.line_items) {
+    const warn = (message: string) => simulation.warnings.push({ lineItemId: lineItem.id, message });
+
+    let resolved: LineItemComponents;
+    try {
+      resolved = await resolveLineItemComponents(client, lineItem, configCache);
+    } catch (error) {
+      warn(`${lineItem.title}: ${error instanceof Error ? error.message : String(error)}`);
+      simulation.failedLineItems.push(lineItem.id);
+      continue;
+    }
+
+    const allocations = await locations.resolve(lineItem, lineItem.quantity);
+    if (allocations.length === 0) {
+      warn(`${lineItem.title}: no location to deduct ${lineItem.quantity} unit(s) from`);
+      continue;
+    }
+
+    const { productId, bundleConfig, components, nestedBundles } = resolved;
+
+    if (!bundleConfig || components.length === 0) {
+      // Shopify deducts the product itself; bundles containing it follow
+      await applyShopifyDeduction(client, lineItem, allocations, simulatedLevels);
+      await addParentBundles(client, productId, affectedBundles);
+      continue;
+    }
+
+    const inventory = await client.resolveInventoryItems(components.map(componentInventoryId));
+
+    // The deduction is all-or-nothing, so one component that can't be adjusted
+    // leaves every component of the line item unchanged
+    const problems = components.flatMap(component => {
+      const item = inventory.get(componentInventoryId(component));
+      if (!item) return [`No inventory item for ${componentLabel(component)}`];
+
+      return allocations
+        .filter(allocation => !item.levels.has(allocation.locationId))
+        .map(allocation => `${componentLabel(component)} is not stocked at ${allocation.locationId}`);
+    });
+
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        warn(`${problem} - the line item would fail without changing any stock`);
+      }
+      simulation.failedLineItems.push(lineItem.id);
+      continue;
+    }
+
+    for (const component of components) {
+      const item = inventory.get(componentInventoryId(component));
+      if (!item) continue;
+
+      for (const allocation of allocations) {
+        const key = inventoryLevelKey(item.inventoryItemId, allocation.locationId);
+        const delta = -component.quantity * allocation.quantity;
+
+        let before: number | null = null;
+        let after: number | null = null;
+
+        if (item.tracked) {
+          before = simulatedLevels.get(key) ?? item.levels.get(allocation.locationId) ?? 0;
+          after = before + delta;
+          simulatedLevels.set(key, after);
+
+          if (after < 0) {
+            warn(`Insufficient stock: ${componentLabel(component)} at ${allocation.locationId} would go from ${before} to ${after}`);
+          }
+        }
+
+        simulation.componentChanges.push({
+          lineItemId: lineItem.id,
+          bundleProductId: productId,
+          productId: component.productId,
+          variantId: component.variantId || null,
+          title: componentLabel(component),
+          inventoryItemId: item.inventoryItemId,
+          locationId: allocation.locationId,
+          delta,
+          before,
+          after,
+        });
+      }
+    }
+
+    affectedBundles.set(productId, bundleConfig);
+    for (const [nestedProductId, nestedConfig] of nestedBundles) {
+      affectedBundles.set(nestedProductId, nestedConfig);
+    }
+  }
+
+  for (const [bundleProductId, bundleConfig] of affectedBundles) {
+    try {
+      simulation.bundleLevels.push(...await reconcileBundleInventory(client, bundleProductId, bundleConfig, {
+        reportOnly: true,
+        configCache,
+        simulatedLevels,
+      }));
+    } catch (error) {
+      simulation.warnings.push({
+        lineItemId: null,
+        message: `Could not recompute ${bundleProductId}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  return simulation;
+}
+
+async function applyShopifyDeduction(
+  client: ShopifyGraphQL,
+  lineItem: ShopifyLineItem,
+  allocations: LocationAllocation[],
+  simulatedLevels: Map<string, number>
+): Promise<void> {
+  const id = lineItem.variant_id
+    ? `gid://shopify/ProductVariant/${lineItem.variant_id}`
+    : `gid://shopify/Product/${lineItem.product_id}`;
+
+  const item = (await client.resolveInventoryItems([id])).get(id);
+  if (!item?.tracked) return;
+
+  for (const allocation of allocations) {
+    const key = inventoryLevelKey(item.inventoryItemId, allocation.locationId);
+    const before = simulatedLevels.get(key) ?? item.levels.get(allocation.locationId) ?? 0;
+    simulatedLevels.set(key, before - allocation.quantity);
+  }
+}
+
+/**
+ * Adds every bundle containing the product, and the bundles containing
+ * those, as syncParentBundles would recompute them.
+ */
+async function addParentBundles(client: ShopifyGraphQL, productId: string, affectedBundles: Map<string, BundleConfig>): Promise<void> {
+  for (const bundleProductId of await bundleIndex.getBundlesForComponent(client, client.shop, productId)) {
+    if (affectedBundles.has(bundleProductId)) continue;
+
+    const bundleConfig = await client.getBundleConfig(bundleProductId).catch(skipInvalidConfig);
+    if (!hasComponents(bundleConfig)) continue;
+
+    affectedBundles.set(bundleProductId, bundleConfig);
+    await addParentBundles(client, bundleProductId, affectedBundles);
+  }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger.js';
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+const log = createLogger('store');
+
+/**
+ * Whether DATA_DIR exists (or can be created) and is writable.
+ */
+export function isDataDirWritable(): boolean {
+  try {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    fs.accessSync(DATA_DIR, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Small JSON-file backed store. The whole document is kept in memory and
+ * rewritten atomically (temp file + rename) after every update, which is
+ * plenty for the volumes a single webhook server handles.
+ */
+export class JsonStore<T> {
+  private data: T;
+  private filePath: string;
+
+  constructor(name: string, defaults: T) {
+    this.filePath = path.join(DATA_DIR, `${name}.json`);
+    this.data = this.load(defaults);
+  }
+
+  get(): T {
+    return this.data;
+  }
+
+  update<R>(mutator: (data: T) => R): R {
+    const result = mutator(this.data);
+    this.persist();
+    return result;
+  }
+
+  private load(defaults: T): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return defaults;
+      }
+
+      return { ...defaults, ...JSON.parse(fs.readFileSync(this.filePath, 'utf8')) };
+    } catch (error) {
+      log.error('Failed to load store, starting empty', { file: this.filePath, error });
+      return defaults;
+    }
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,149 @@
+import { TEST_SHOP, TEST_LOCATION_ID } from './helpers/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { app } from '../app.js';
+import { FakeAdminApi } from './helpers/admin-api.js';
+import { BUNDLE_CONFIG_VERSION } from '../../shared/bundle-config.js';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const ADMIN_AUTHORIZATION = `Bearer ${process.env.ADMIN_API_KEY}`;
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('a JSON bundle import larger than the default body limit is parsed', async () => {
+  // Well over express.json()'s 100kb default; every entry fails before the Admin API is needed
+  const bundles = Array.from({ length: 500 }, (_, i) => ({
+    productId: `gid://shopify/Product/${i + 1}`,
+    title: `Bundle ${i + 1} ${'-'.repeat(300)}`,
+    config: null,
+  }));
+  const body = JSON.stringify({ bundles });
+  assert.ok(body.length > 100 * 1024);
+
+  const response = await fetch(`${baseUrl}/admin/bundles/import?shop=${TEST_SHOP}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: ADMIN_AUTHORIZATION },
+    body,
+  });
+
+  assert.equal(response.status, 422);
+  const { result } = await response.json() as any;
+  assert.equal(result.errors.length, 500);
+  assert.equal(result.errors[0].message, 'must be a bundle config object');
+});
+
+test('other admin requests keep the default body limit', async () => {
+  const response = await fetch(`${baseUrl}/admin/pricing/sync`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: ADMIN_AUTHORIZATION },
+    body: JSON.stringify({ shop: TEST_SHOP, padding: '-'.repeat(200 * 1024) }),
+  });
+
+  assert.equal(response.status, 413);
+});
+
+test('the audit log is served at /audit behind the admin key', async () => {
+  const response = await fetch(`${baseUrl}/audit?shop=${TEST_SHOP}`, { headers: { Authorization: ADMIN_AUTHORIZATION } });
+  assert.equal(response.status, 200);
+  assert.ok(Array.isArray((await response.json() as any).entries));
+
+  const unauthorized = await fetch(`${baseUrl}/audit`);
+  assert.equal(unauthorized.status, 401);
+});
+
+test('reconciliation is queued and reported at /reconcile', async () => {
+  const response = await fetch(`${baseUrl}/reconcile`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: ADMIN_AUTHORIZATION },
+    body: JSON.stringify({ shop: TEST_SHOP, reportOnly: true }),
+  });
+  assert.equal(response.status, 202);
+  assert.equal((await response.json() as any).job.payload.reportOnly, true);
+
+  const reports = await fetch(`${baseUrl}/reconcile/reports`, { headers: { Authorization: ADMIN_AUTHORIZATION } });
+  assert.equal(reports.status, 200);
+});
+
+test('an order is simulated at /simulate without changing stock', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { title: 'Mug', available: 10 });
+  api.addProduct(10, {
+    title: 'Gift Box',
+    available: 5,
+    config: { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: mug.productId, quantity: 2, title: 'Mug' }] },
+  });
+  api.install();
+
+  try {
+    const order = {
+      id: 3001,
+      name: '#3001',
+      line_items: [{ id: 1, product_id: 10, variant_id: 10, title: 'Gift Box', quantity: 1, price: '20.00', sku: '', requires_shipping: true }],
+    };
+    const response = await fetch(`${baseUrl}/simulate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: ADMIN_AUTHORIZATION },
+      body: JSON.stringify({ shop: TEST_SHOP, order }),
+    });
+
+    assert.equal(response.status, 200);
+    const { simulation } = await response.json() as any;
+    assert.deepEqual(
+      simulation.componentChanges.map((change: any) => [change.inventoryItemId, change.locationId, change.delta, change.after]),
+      [[mug.inventoryItemId, TEST_LOCATION_ID, -2, 8]]
+    );
+    assert.equal(api.level(mug), 10);
+    assert.equal(api.count('AdjustInventoryBatch') + api.count('SetInventoryBatch'), 0);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a simulated line item with a component that cannot be adjusted changes nothing', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { title: 'Mug', available: 10 });
+  const bundle = api.addProduct(10, {
+    title: 'Gift Box',
+    available: 5,
+    config: {
+      version: BUNDLE_CONFIG_VERSION,
+      isBundle: true,
+      products: [{ productId: mug.productId, quantity: 2, title: 'Mug' }, { productId: 'gid://shopify/Product/999', quantity: 1, title: 'Deleted' }],
+    },
+  });
+  api.install();
+
+  try {
+    const order = {
+      id: 3002,
+      name: '#3002',
+      line_items: [{ id: 1, product_id: 10, variant_id: 10, title: 'Gift Box', quantity: 1, price: '20.00', sku: '', requires_shipping: true }],
+    };
+    const response = await fetch(`${baseUrl}/simulate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: ADMIN_AUTHORIZATION },
+      body: JSON.stringify({ shop: TEST_SHOP, order }),
+    });
+
+    const { simulation } = await response.json() as any;
+    assert.deepEqual(simulation.failedLineItems, [1]);
+    assert.deepEqual(simulation.componentChanges, []);
+    assert.ok(simulation.bundleLevels.every((level: any) => level.variantId !== bundle.variantId));
+    assert.match(simulation.warnings[0].message, /No inventory item for Deleted/);
+  } finally {
+    api.uninstall();
+  }
+});
@@ -0,0 +1,171 @@
+import { TEST_SHOP, TEST_LOCATION_ID } from './helpers/env.js';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { once } from 'events';
+import { FakeAdminApi } from './helpers/admin-api.js';
+import { ShopifyGraphQL } from '../graphql.js';
+import { adjustBundleComponents } from '../inventory.js';
+import { alertNotifier, EmailAlertSender, WebhookAlertSender } from '../alerts.js';
+import { BUNDLE_CONFIG_VERSION } from '../../shared/bundle-config.js';
+import type { AddressInfo } from 'net';
+import type { AlertSender, BundleAlert, MailTransport } from '../alerts.js';
+
+class StubSender implements AlertSender {
+  readonly name = 'stub';
+  readonly sent: BundleAlert[] = [];
+  failing = false;
+
+  async send(alert: BundleAlert): Promise<void> {
+    if (this.failing) throw new Error('Alert endpoint unreachable');
+    this.sent.push(alert);
+  }
+}
+
+after(() => {
+  alertNotifier.setSenders([]);
+});
+
+function alert(variant: number, overrides: Partial<BundleAlert> = {}): BundleAlert {
+  return {
+    type: 'low_stock',
+    shop: TEST_SHOP,
+    bundleProductId: `gid://shopify/Product/${variant}`,
+    bundleTitle: 'Gift Box',
+    variantId: `gid://shopify/ProductVariant/${variant}`,
+    variantTitle: 'Default Title',
+    locationId: TEST_LOCATION_ID,
+    previousLevel: 6,
+    level: 5,
+    threshold: 5,
+    limitingComponent: 'Mug',
+    message: `Gift Box is low on stock at ${TEST_LOCATION_ID}: 5 left, limited by Mug`,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+test('a bundle selling down to its threshold alerts though its level needs no correction', async () => {
+  const sender = new StubSender();
+  alertNotifier.setSenders([sender]);
+
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { title: 'Mug', available: 16 });
+  const bundle = api.addProduct(10, {
+    title: 'Gift Box',
+    available: 8,
+    config: {
+      version: BUNDLE_CONFIG_VERSION,
+      isBundle: true,
+      products: [{ productId: mug.productId, quantity: 2, title: 'Mug' }],
+      alerts: { lowStock: 5 },
+    },
+  });
+  api.install();
+
+  const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+  const sell = async (orderId: number) => {
+    // Shopify takes the sold bundle off its own level before the webhook arrives
+    api.setLevel(bundle, api.level(bundle) - 1);
+    await adjustBundleComponents(
+      client,
+      { id: orderId, product_id: 10, variant_id: 10, title: 'Gift Box', quantity: 1, price: '20.00', sku: '', requires_shipping: true },
+      [{ locationId: TEST_LOCATION_ID, quantity: -1 }]
+    );
+  };
+
+  try {
+    await sell(1);
+    await sell(2);
+    assert.equal(sender.sent.length, 0);
+
+    await sell(3);
+    assert.equal(api.level(mug), 10);
+    assert.equal(api.level(bundle), 5);
+    assert.equal(api.count('SetInventoryBatch'), 0);
+
+    assert.equal(sender.sent.length, 1);
+    assert.equal(sender.sent[0].type, 'low_stock');
+    assert.equal(sender.sent[0].previousLevel, 6);
+    assert.equal(sender.sent[0].level, 5);
+    assert.equal(sender.sent[0].limitingComponent, 'Mug');
+
+    // Further drops below the threshold don't alert again
+    await sell(4);
+    assert.equal(sender.sent.length, 1);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('an alert is debounced only once a sender delivered it', async () => {
+  const sender = new StubSender();
+  alertNotifier.setSenders([sender]);
+
+  sender.failing = true;
+  assert.equal(await alertNotifier.notify(alert(20)), false);
+
+  sender.failing = false;
+  assert.equal(await alertNotifier.notify(alert(20)), true);
+  assert.equal(sender.sent.length, 1);
+
+  // Within ALERT_DEBOUNCE_MINUTES of the delivered one
+  assert.equal(await alertNotifier.notify(alert(20)), true);
+  assert.equal(sender.sent.length, 1);
+
+  // Other types and variants aren't held back
+  await alertNotifier.notify(alert(20, { type: 'out_of_stock', level: 0, threshold: 0 }));
+  await alertNotifier.notify(alert(21));
+  assert.deepEqual(sender.sent.map(sent => [sent.variantId, sent.type]), [
+    ['gid://shopify/ProductVariant/20', 'low_stock'],
+    ['gid://shopify/ProductVariant/20', 'out_of_stock'],
+    ['gid://shopify/ProductVariant/21', 'low_stock'],
+  ]);
+});
+
+test('the email sender sends the alert through the mail transport', async () => {
+  const messages: Parameters<MailTransport['sendMail']>[0][] = [];
+  const transport: MailTransport = {
+    async sendMail(message) {
+      messages.push(message);
+    },
+  };
+
+  await new EmailAlertSender(transport, 'alerts@example.com', 'merchant@example.com').send(alert(30));
+
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].from, 'alerts@example.com');
+  assert.equal(messages[0].to, 'merchant@example.com');
+  assert.equal(messages[0].subject, `[${TEST_SHOP}] Low stock: Gift Box`);
+  assert.match(messages[0].text, /Level: 6 -> 5/);
+  assert.match(messages[0].text, /Limited by: Mug/);
+});
+
+test('the webhook sender posts the alert as JSON', async () => {
+  const received: Array<{ contentType?: string; body: string }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received.push({ contentType: req.headers['content-type'], body });
+      res.writeHead(req.url === '/failing' ? 500 : 204).end();
+    });
+  });
+  server.listen(0);
+  await once(server, 'listening');
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const sent = alert(40);
+    await new WebhookAlertSender(`${baseUrl}/alerts`).send(sent);
+
+    assert.equal(received[0].contentType, 'application/json');
+    assert.deepEqual(JSON.parse(received[0].body), sent);
+
+    await assert.rejects(new WebhookAlertSender(`${baseUrl}/failing`).send(sent), /HTTP 500/);
+  } finally {
+    server.close();
+  }
+});
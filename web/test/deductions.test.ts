@@ -0,0 +1,253 @@
+import { TEST_SHOP, TEST_LOCATION_ID } from './helpers/env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeAdminApi, userErrors } from './helpers/admin-api.js';
+import { ShopifyGraphQL } from '../graphql.js';
+import { adjustBundleComponents, applyComponentChanges, BundleDeductionError } from '../inventory.js';
+import { runOnce } from '../app.js';
+import { jobQueue } from '../jobs.js';
+import { waitFor } from './helpers/wait.js';
+import { needsAttention } from '../attention.js';
+import { processedWebhooks } from '../idempotency.js';
+import { InvalidBundleConfigError } from '../errors.js';
+import { BundleSelectionError } from '../bundles.js';
+import { BUNDLE_CONFIG_VERSION, BundleNestingError } from '../../shared/bundle-config.js';
+import type { FakeProduct } from './helpers/admin-api.js';
+import type { InventoryChange } from '../types.js';
+
+// Enough components for three `inventoryAdjustQuantities` batches (250, 250, 100)
+const COMPONENT_COUNT = 600;
+
+function setup(failingCalls: number[]) {
+  const api = new FakeAdminApi();
+  const components: FakeProduct[] = Array.from({ length: COMPONENT_COUNT }, (_, i) => api.addProduct(i + 1, { available: 10 }));
+  const changes: InventoryChange[] = components.map(component => ({
+    inventoryItemId: component.inventoryItemId,
+    locationId: TEST_LOCATION_ID,
+    delta: -1,
+  }));
+
+  // Fails the Nth `inventoryAdjustQuantities` call, counting reversals
+  let adjustCalls = 0;
+  api.intercept = ({ operation }) => {
+    if (operation !== 'AdjustInventoryBatch') return undefined;
+    return failingCalls.includes(++adjustCalls) ? userErrors('inventoryAdjustQuantities', 'Inventory item is unavailable') : undefined;
+  };
+  api.install();
+
+  return { api, components, changes, client: new ShopifyGraphQL(TEST_SHOP, 'test-token') };
+}
+
+test('a failed batch reverses the batches already applied', async () => {
+  const { api, components, changes, client } = setup([3]);
+
+  try {
+    const error = await applyComponentChanges(client, changes).catch(error => error);
+
+    assert.ok(error instanceof BundleDeductionError);
+    assert.equal(error.compensated, true);
+    assert.deepEqual(error.outstanding, []);
+    // Three batches, then one reversal for each of the two that went through
+    assert.equal(api.count('AdjustInventoryBatch'), 5);
+    assert.ok(components.every(component => api.level(component) === 10));
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a failed reversal reports the changes still applied', async () => {
+  // The third batch fails, then reversing the second one does too
+  const { api, components, changes, client } = setup([3, 5]);
+
+  try {
+    const error = await applyComponentChanges(client, changes).catch(error => error);
+
+    assert.ok(error instanceof BundleDeductionError);
+    assert.equal(error.compensated, false);
+    assert.deepEqual(error.outstanding, changes.slice(250, 500));
+    assert.ok(components.slice(0, 250).every(component => api.level(component) === 10));
+    assert.ok(components.slice(250, 500).every(component => api.level(component) === 9));
+    assert.ok(components.slice(500).every(component => api.level(component) === 10));
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a reversed deduction needs attention and is retried', async () => {
+  const { api, components, changes, client } = setup([3]);
+  const key = 'orders/create:1001:1';
+
+  try {
+    await assert.rejects(runOnce(TEST_SHOP, key, 'webhook-1', () => applyComponentChanges(client, changes)), BundleDeductionError);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === key);
+    assert.equal(record.compensated, true);
+    assert.equal(record.orderId, '1001');
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, key), false);
+
+    // The job's retry goes through and clears the record
+    await runOnce(TEST_SHOP, key, 'webhook-1', () => applyComponentChanges(client, changes));
+
+    assert.ok(components.every(component => api.level(component) === 9));
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, key), true);
+    assert.equal(needsAttention.list(TEST_SHOP).some(record => record.key === key), false);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a deduction that could not be reversed needs attention and is not applied again', async () => {
+  const { api, changes, client } = setup([3, 5]);
+  const key = 'orders/create:1002:1';
+  let attempts = 0;
+
+  const task = () => {
+    attempts++;
+    return applyComponentChanges(client, changes);
+  };
+
+  try {
+    await runOnce(TEST_SHOP, key, 'webhook-2', task);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === key);
+    assert.equal(record.compensated, false);
+    assert.deepEqual(record.outstanding, changes.slice(250, 500));
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, key), true);
+
+    // A redelivery skips the line item rather than deducting it twice
+    await runOnce(TEST_SHOP, key, 'webhook-2', task);
+    assert.equal(attempts, 1);
+    assert.equal(needsAttention.list(TEST_SHOP).some(record => record.key === key), true);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a bundle with an invalid config needs attention instead of selling as a plain product', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { available: 10 });
+  const bundle = api.addProduct(10, {
+    available: 5,
+    config: JSON.stringify({ version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: mug.productId, quantity: 0 }] }),
+  });
+  api.install();
+
+  const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+  const key = 'orders/create:1003:1';
+  const task = () => adjustBundleComponents(
+    client,
+    { id: 1, product_id: 10, variant_id: 10, title: 'Gift Box', quantity: 1, price: '20.00', sku: '', requires_shipping: true },
+    [{ locationId: TEST_LOCATION_ID, quantity: -1 }]
+  );
+
+  try {
+    await assert.rejects(runOnce(TEST_SHOP, key, 'webhook-3', task), InvalidBundleConfigError);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === key);
+    assert.equal(record.compensated, true);
+    assert.match(record.error, /products\[0\]\.quantity/);
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, key), false);
+    assert.equal(api.count('AdjustInventoryBatch'), 0);
+
+    // Once the config is fixed, the job's retry deducts the components
+    api.setConfig(bundle, { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: mug.productId, quantity: 2 }] });
+    await runOnce(TEST_SHOP, key, 'webhook-3', task);
+
+    assert.equal(api.level(mug), 8);
+    assert.equal(needsAttention.list(TEST_SHOP).some(record => record.key === key && !record.resolvedAt), false);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a line item that cannot be deducted does not hold up the rest of the order', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { available: 10 });
+  // Its component doesn't exist, so it has no inventory item
+  api.addProduct(10, { config: { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: 'gid://shopify/Product/999', quantity: 1 }] } });
+  api.addProduct(20, { config: { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: mug.productId, quantity: 2 }] } });
+  api.install();
+
+  const lineItem = (id: number, productId: number) =>
+    ({ id, product_id: productId, variant_id: productId, title: `Bundle ${productId}`, quantity: 1, price: '20.00', sku: '', requires_shipping: true });
+  const order = { id: 1004, name: '#1004', line_items: [lineItem(1, 10), lineItem(2, 20)] };
+
+  jobQueue.start();
+  try {
+    const job = jobQueue.enqueue('orders/create', TEST_SHOP, order, 'webhook-4');
+    await waitFor(() => jobQueue.get(job.id)?.status === 'dead');
+
+    assert.equal(api.level(mug), 8);
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, 'orders/create:1004:2'), true);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === 'orders/create:1004:1');
+    assert.match(record.error, /No inventory item/);
+    // Retrying can't add the inventory item, so the job is dead-lettered at once
+    assert.equal(jobQueue.get(job.id)?.attempts, 1);
+  } finally {
+    jobQueue.stop();
+    api.uninstall();
+  }
+});
+
+test('a line item with invalid mix-and-match choices needs attention', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { available: 10 });
+  api.addProduct(10, {
+    config: {
+      version: BUNDLE_CONFIG_VERSION,
+      isBundle: true,
+      products: [],
+      groups: [{ id: 'flavor', name: 'Flavor', min: 1, max: 1, options: [{ productId: mug.productId, quantity: 1 }] }],
+    },
+  });
+  api.install();
+
+  const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+  const key = 'orders/create:1005:1';
+  const task = () => adjustBundleComponents(
+    client,
+    { id: 1, product_id: 10, variant_id: 10, title: 'Pick a Mug', quantity: 1, price: '20.00', sku: '', requires_shipping: true, properties: [{ name: '_bundle_flavor', value: 'unknown' }] },
+    [{ locationId: TEST_LOCATION_ID, quantity: -1 }]
+  );
+
+  try {
+    await assert.rejects(runOnce(TEST_SHOP, key, 'webhook-5', task), BundleSelectionError);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === key);
+    assert.equal(record.compensated, true);
+    assert.match(record.error, /"unknown" is not one of the options/);
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, key), false);
+    assert.equal(api.level(mug), 10);
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('a bundle nested in itself needs attention', async () => {
+  const api = new FakeAdminApi();
+  const mug = api.addProduct(1, { available: 10 });
+  // Each box contains the other
+  api.addProduct(10, { config: { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: mug.productId, quantity: 1 }, { productId: 'gid://shopify/Product/20', quantity: 1 }] } });
+  api.addProduct(20, { config: { version: BUNDLE_CONFIG_VERSION, isBundle: true, products: [{ productId: 'gid://shopify/Product/10', quantity: 1 }] } });
+  api.install();
+
+  const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+  const key = 'orders/create:1006:1';
+  const task = () => adjustBundleComponents(
+    client,
+    { id: 1, product_id: 10, variant_id: 10, title: 'Gift Box', quantity: 1, price: '20.00', sku: '', requires_shipping: true },
+    [{ locationId: TEST_LOCATION_ID, quantity: -1 }]
+  );
+
+  try {
+    await assert.rejects(runOnce(TEST_SHOP, key, 'webhook-6', task), BundleNestingError);
+
+    const [record] = needsAttention.list(TEST_SHOP).filter(record => record.key === key);
+    assert.equal(record.compensated, true);
+    assert.match(record.error, /Bundle contains itself/);
+    assert.equal(api.level(mug), 10);
+  } finally {
+    api.uninstall();
+  }
+});
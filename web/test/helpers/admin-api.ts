@@ -0,0 +1,210 @@
+import { TEST_LOCATION_ID } from './env.js';
+import type { BundleConfig } from '../../types.js';
+
+export interface FakeProduct {
+  productId: string;
+  variantId: string;
+  inventoryItemId: string;
+}
+
+export interface FakeRequest {
+  operation: string;
+  variables: Record<string, any>;
+}
+
+interface ProductRecord extends FakeProduct {
+  title: string;
+  config: string | null;
+  tracked: boolean;
+}
+
+/**
+ * An in-memory Admin API behind `fetch`, in the spirit of the mock in
+ * scripts/benchmark-batching.ts. Every product has a single variant stocked
+ * at TEST_LOCATION_ID; requests to anything but a shop's Admin API go to the
+ * real `fetch`.
+ */
+export class FakeAdminApi {
+  readonly requests: FakeRequest[] = [];
+  // Returns a response body to send instead of the normal one, e.g. to fail a call
+  intercept: ((request: FakeRequest) => unknown | undefined) | null = null;
+  // Milliseconds before each response arrives; by default responses only yield once
+  latency: ((request: FakeRequest, index: number) => number) | null = null;
+
+  private products = new Map<string, ProductRecord>();
+  private levels = new Map<string, number>();
+  private realFetch = globalThis.fetch;
+
+  addProduct(id: number, options: { title?: string; config?: BundleConfig | string; available?: number; tracked?: boolean } = {}): FakeProduct {
+    const product: ProductRecord = {
+      productId: `gid://shopify/Product/${id}`,
+      variantId: `gid://shopify/ProductVariant/${id}`,
+      inventoryItemId: `gid://shopify/InventoryItem/${id}`,
+      title: options.title ?? `Product ${id}`,
+      config: typeof options.config === 'object' ? JSON.stringify(options.config) : options.config ?? null,
+      tracked: options.tracked ?? true,
+    };
+
+    this.products.set(product.productId, product);
+    this.levels.set(product.inventoryItemId, options.available ?? 0);
+    return product;
+  }
+
+  level(product: FakeProduct): number {
+    return this.levels.get(product.inventoryItemId) ?? 0;
+  }
+
+  setLevel(product: FakeProduct, level: number): void {
+    this.levels.set(product.inventoryItemId, level);
+  }
+
+  setConfig(product: FakeProduct, config: BundleConfig | string | null): void {
+    this.products.get(product.productId)!.config = typeof config === 'object' && config !== null ? JSON.stringify(config) : config;
+  }
+
+  count(operation: string): number {
+    return this.requests.filter(request => request.operation === operation).length;
+  }
+
+  install(): void {
+    globalThis.fetch = async (url: any, init?: any): Promise<Response> => {
+      if (!String(url).includes('.myshopify.com/admin/api/')) {
+        return this.realFetch(url, init);
+      }
+
+      const { query, variables } = JSON.parse(init.body);
+      const request = { operation: /(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || 'unknown', variables };
+      this.requests.push(request);
+
+      const body = this.intercept?.(request) ?? { data: this.respond(request) };
+
+      // Let other requests in flight interleave with this one
+      const delay = this.latency?.(request, this.requests.length - 1) ?? 0;
+      await new Promise(resolve => delay > 0 ? setTimeout(resolve, delay) : setImmediate(resolve));
+
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    };
+  }
+
+  uninstall(): void {
+    globalThis.fetch = this.realFetch;
+  }
+
+  private findProduct(id: string): ProductRecord | undefined {
+    return this.products.get(id.replace('ProductVariant', 'Product'));
+  }
+
+  private inventoryItem(product: ProductRecord) {
+    return {
+      id: product.inventoryItemId,
+      tracked: product.tracked,
+      inventoryLevels: {
+        edges: [{
+          node: {
+            location: { id: TEST_LOCATION_ID },
+            quantities: [{ name: 'available', quantity: this.level(product) }],
+          },
+        }],
+      },
+    };
+  }
+
+  private change(inventoryItemId: string, locationId: string, delta: number) {
+    return {
+      name: 'available',
+      delta,
+      quantityAfterChange: this.levels.get(inventoryItemId) ?? 0,
+      item: { id: inventoryItemId },
+      location: { id: locationId },
+    };
+  }
+
+  private respond({ operation, variables }: FakeRequest): unknown {
+    switch (operation) {
+      case 'GetBundleConfig': {
+        const product = this.findProduct(variables.productId);
+        return {
+          product: product ? {
+            id: product.productId,
+            title: product.title,
+            metafield: product.config !== null
+              ? { id: `gid://shopify/Metafield/${product.productId.split('/').pop()}`, namespace: 'custom', key: 'bundle_config', value: product.config, type: 'json' }
+              : null,
+          } : null,
+        };
+      }
+      case 'GetBundleConfigs':
+        return {
+          nodes: variables.ids.map((id: string) => {
+            const product = this.findProduct(id);
+            return product ? { id, metafield: product.config !== null ? { value: product.config } : null } : null;
+          }),
+        };
+      case 'GetBundleProducts':
+        return {
+          products: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            edges: Array.from(this.products.values()).map(product => ({
+              node: {
+                id: product.productId,
+                title: product.title,
+                metafield: product.config !== null ? { value: product.config } : null,
+              },
+            })),
+          },
+        };
+      case 'GetProductVariants': {
+        const product = this.findProduct(variables.productId);
+        return {
+          product: product ? {
+            id: product.productId,
+            variants: {
+              edges: [{
+                node: { id: product.variantId, title: 'Default Title', price: '0.00', compareAtPrice: null, inventoryItem: { id: product.inventoryItemId } },
+              }],
+            },
+          } : null,
+        };
+      }
+      case 'GetInventoryNodes':
+        return {
+          nodes: variables.ids.map((id: string) => {
+            const product = this.findProduct(id);
+            if (!product) return null;
+
+            return id === product.variantId
+              ? { id, inventoryItem: this.inventoryItem(product) }
+              : { id, variants: { edges: [{ node: { id: product.variantId, inventoryItem: this.inventoryItem(product) } }] } };
+          }),
+        };
+      case 'GetOrderFulfillmentLocations':
+        return { order: { fulfillmentOrders: { nodes: [] } } };
+      case 'GetPrimaryLocation':
+        return { location: { id: TEST_LOCATION_ID } };
+      case 'AdjustInventoryBatch': {
+        const changes = variables.changes.map((change: any) => {
+          this.levels.set(change.inventoryItemId, (this.levels.get(change.inventoryItemId) ?? 0) + change.delta);
+          return this.change(change.inventoryItemId, change.locationId, change.delta);
+        });
+        return { inventoryAdjustQuantities: { inventoryAdjustmentGroup: { reason: 'correction', changes }, userErrors: [] } };
+      }
+      case 'SetInventoryBatch': {
+        const changes = variables.quantities.map((quantity: any) => {
+          const delta = quantity.quantity - (this.levels.get(quantity.inventoryItemId) ?? 0);
+          this.levels.set(quantity.inventoryItemId, quantity.quantity);
+          return this.change(quantity.inventoryItemId, quantity.locationId, delta);
+        });
+        return { inventorySetQuantities: { inventoryAdjustmentGroup: { reason: 'correction', changes }, userErrors: [] } };
+      }
+      default:
+        throw new Error(`Unexpected operation ${operation}`);
+    }
+  }
+}
+
+/**
+ * A response body failing a mutation with a user error.
+ */
+export function userErrors(mutation: string, message: string): unknown {
+  return { data: { [mutation]: { userErrors: [{ field: null, message }] } } };
+}
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Environment for tests. Import this before any server module: stores read
+ * DATA_DIR and the other settings when they are first loaded.
+ */
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundles-test-'));
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+process.env.DATA_DIR = dataDir;
+process.env.LOG_LEVEL ||= 'error';
+process.env.SHOPIFY_SHOP = 'test-shop.myshopify.com';
+process.env.SHOPIFY_ACCESS_TOKEN = 'test-token';
+process.env.SHOPIFY_WEBHOOK_SECRET = 'test-webhook-secret';
+process.env.ADMIN_API_KEY = 'test-admin-key';
+process.env.SHOPIFY_LOCATION_ID = 'gid://shopify/Location/1';
+process.env.SHOPIFY_API_MAX_RETRIES = '0';
+
+export const TEST_SHOP = process.env.SHOPIFY_SHOP;
+export const TEST_LOCATION_ID = process.env.SHOPIFY_LOCATION_ID;
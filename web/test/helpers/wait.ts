@@ -0,0 +1,12 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Polls until `condition` holds, e.g. for the job queue to get through a job.
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the condition');
+    await sleep(10);
+  }
+}
@@ -0,0 +1,54 @@
+import { TEST_SHOP } from './helpers/env.js';
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { processedWebhooks } from '../idempotency.js';
+import { jobQueue } from '../jobs.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function onDisk(): { lineItems: Record<string, unknown> } {
+  return JSON.parse(fs.readFileSync(path.join(process.env.DATA_DIR!, 'processed-webhooks.json'), 'utf8'));
+}
+
+test('line items recorded in a batch are written together when it settles', async () => {
+  processedWebhooks.recordWebhook('webhook-0', TEST_SHOP, 'orders/create');
+
+  await assert.rejects(processedWebhooks.batch(async () => {
+    processedWebhooks.recordLineItem(TEST_SHOP, 'orders/create:1001:1', 'webhook-1');
+    processedWebhooks.recordLineItem(TEST_SHOP, 'orders/create:1001:2', 'webhook-1');
+
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, 'orders/create:1001:1'), true);
+    assert.equal(`${TEST_SHOP}|orders/create:1001:1` in onDisk().lineItems, false);
+    throw new Error('Third line item failed');
+  }), /Third line item failed/);
+
+  // The lines that went through are kept for the retry
+  assert.ok(`${TEST_SHOP}|orders/create:1001:1` in onDisk().lineItems);
+  assert.ok(`${TEST_SHOP}|orders/create:1001:2` in onDisk().lineItems);
+});
+
+test('entries past the retention window are dropped unless their job is still queued', () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+  try {
+    const queuedJob = jobQueue.enqueue('orders/create', TEST_SHOP, {}, 'webhook-queued');
+    processedWebhooks.recordWebhook('webhook-old', TEST_SHOP, 'orders/create');
+    processedWebhooks.recordLineItem(TEST_SHOP, 'orders/create:2001:1', 'webhook-old');
+    processedWebhooks.recordLineItem(TEST_SHOP, 'orders/create:2002:1', queuedJob.webhookId);
+
+    mock.timers.setTime(Date.parse('2026-01-01T00:00:00Z') + 47 * HOUR);
+    processedWebhooks.recordWebhook('webhook-new', TEST_SHOP, 'orders/create');
+    assert.equal(processedWebhooks.hasWebhook('webhook-old'), true);
+
+    mock.timers.setTime(Date.parse('2026-01-01T00:00:00Z') + 49 * HOUR);
+    processedWebhooks.recordWebhook('webhook-newer', TEST_SHOP, 'orders/create');
+
+    assert.equal(processedWebhooks.hasWebhook('webhook-old'), false);
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, 'orders/create:2001:1'), false);
+    assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, 'orders/create:2002:1'), true);
+    assert.equal(processedWebhooks.hasWebhook('webhook-new'), true);
+  } finally {
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,88 @@
+import { TEST_SHOP, TEST_LOCATION_ID } from './helpers/env.js';
+import { test } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+import assert from 'node:assert/strict';
+import { FakeAdminApi } from './helpers/admin-api.js';
+import { ShopifyGraphQL } from '../graphql.js';
+import { adjustBundleComponents } from '../inventory.js';
+import { BUNDLE_CONFIG_VERSION } from '../../shared/bundle-config.js';
+import type { BundleConfig, ShopifyLineItem } from '../types.js';
+
+function bundleConfig(products: Array<{ productId: string; quantity: number }>): BundleConfig {
+  return { version: BUNDLE_CONFIG_VERSION, isBundle: true, products };
+}
+
+function lineItem(id: number, productId: string): ShopifyLineItem {
+  const numericId = Number(productId.split('/').pop());
+  return { id, product_id: numericId, variant_id: numericId, title: 'Bundle', quantity: 1, price: '0.00', sku: '', requires_shipping: true };
+}
+
+test('concurrent orders for bundles sharing a component keep every level consistent', async () => {
+  const api = new FakeAdminApi();
+  const shared = api.addProduct(1, { available: 100 });
+  const onlyA = api.addProduct(2, { available: 11 });
+  const onlyB = api.addProduct(3, { available: 10 });
+  const bundleA = api.addProduct(10, { config: bundleConfig([{ productId: shared.productId, quantity: 1 }, { productId: onlyA.productId, quantity: 2 }]) });
+  const bundleB = api.addProduct(20, { config: bundleConfig([{ productId: shared.productId, quantity: 2 }, { productId: onlyB.productId, quantity: 1 }]) });
+  // Uneven response times, so reads and writes from different orders interleave
+  api.latency = (_request, index) => (index * 7) % 11;
+  api.install();
+
+  try {
+    const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+    const orders = [
+      ...Array.from({ length: 3 }, (_, i) => lineItem(100 + i, bundleA.productId)),
+      ...Array.from({ length: 4 }, (_, i) => lineItem(200 + i, bundleB.productId)),
+    ];
+
+    await Promise.all(orders.map(order =>
+      adjustBundleComponents(client, order, [{ locationId: TEST_LOCATION_ID, quantity: -1 }])
+    ));
+
+    // 3 x 1 for bundle A and 4 x 2 for bundle B, with no update lost
+    assert.equal(api.level(shared), 100 - 3 - 8);
+    assert.equal(api.level(onlyA), 11 - 6);
+    assert.equal(api.level(onlyB), 10 - 4);
+
+    // Each bundle ends at the level its final component stock allows
+    assert.equal(api.level(bundleA), Math.min(89, Math.floor(5 / 2)));
+    assert.equal(api.level(bundleB), Math.min(Math.floor(89 / 2), 6));
+  } finally {
+    api.uninstall();
+  }
+});
+
+test('concurrent recomputes of the same bundle never write a stale level', async () => {
+  const api = new FakeAdminApi();
+  const component = api.addProduct(1, { available: 20 });
+  const bundle = api.addProduct(10, { config: bundleConfig([{ productId: component.productId, quantity: 1 }]) });
+  // The first recompute's read of the bundle level comes back last, after
+  // the other orders have adjusted the component
+  let slowReads = 0;
+  api.latency = ({ operation, variables }) =>
+    operation === 'GetInventoryNodes' && variables.ids.includes(bundle.variantId) && slowReads++ === 0 ? 50 : 0;
+  api.install();
+
+  const written: number[] = [];
+  api.intercept = ({ operation, variables }) => {
+    if (operation === 'SetInventoryBatch') {
+      written.push(...variables.quantities.map((quantity: any) => quantity.quantity));
+    }
+    return undefined;
+  };
+
+  try {
+    const client = new ShopifyGraphQL(TEST_SHOP, 'test-token');
+    await Promise.all(Array.from({ length: 8 }, async (_, i) => {
+      await sleep(i * 2);
+      await adjustBundleComponents(client, lineItem(i + 1, bundle.productId), [{ locationId: TEST_LOCATION_ID, quantity: -1 }]);
+    }));
+
+    assert.equal(api.level(component), 12);
+    assert.equal(api.level(bundle), 12);
+    // Locked read-modify-writes only ever move the bundle level down
+    assert.deepEqual(written, [...written].sort((a, b) => b - a));
+  } finally {
+    api.uninstall();
+  }
+});
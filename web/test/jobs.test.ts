@@ -0,0 +1,58 @@
+import { TEST_SHOP } from './helpers/env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { jobQueue } from '../jobs.js';
+import { waitFor } from './helpers/wait.js';
+
+test('jobs wait until the queue is started', async () => {
+  const ran: string[] = [];
+  jobQueue.register('test/early', async job => {
+    ran.push(job.id);
+  });
+
+  const job = jobQueue.enqueue('test/early', TEST_SHOP, {}, null);
+  await sleep(50);
+  assert.deepEqual(ran, []);
+  assert.equal(jobQueue.get(job.id)?.status, 'pending');
+
+  jobQueue.start();
+  try {
+    await waitFor(() => jobQueue.get(job.id) === null);
+    assert.deepEqual(ran, [job.id]);
+  } finally {
+    jobQueue.stop();
+  }
+});
+
+test('a long maintenance job does not hold up webhook jobs', async () => {
+  let release!: () => void;
+  const released = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const finished: string[] = [];
+
+  jobQueue.register('test/reconcile', async () => {
+    await released;
+    finished.push('reconcile');
+  }, 'maintenance');
+  jobQueue.register('test/order', async () => {
+    finished.push('order');
+  });
+
+  jobQueue.start();
+  try {
+    const reconcile = jobQueue.enqueue('test/reconcile', TEST_SHOP, {}, null);
+    const order = jobQueue.enqueue('test/order', TEST_SHOP, {}, null);
+
+    await waitFor(() => jobQueue.get(order.id) === null);
+    assert.deepEqual(finished, ['order']);
+    assert.equal(jobQueue.get(reconcile.id)?.status, 'running');
+
+    release();
+    await waitFor(() => jobQueue.get(reconcile.id) === null);
+    assert.deepEqual(finished, ['order', 'reconcile']);
+  } finally {
+    jobQueue.stop();
+  }
+});
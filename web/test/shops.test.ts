@@ -0,0 +1,16 @@
+import './helpers/env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Legacy single-store mode: SHOPIFY_ACCESS_TOKEN without SHOPIFY_SHOP
+delete process.env.SHOPIFY_SHOP;
+delete process.env.TOKEN_ENCRYPTION_KEY;
+const { shopTokens, isLegacySingleShopMode } = await import('../shops.js');
+
+test('without SHOPIFY_SHOP the token is only used for the first shop seen', () => {
+  assert.equal(isLegacySingleShopMode(), true);
+
+  assert.equal(shopTokens.getAccessToken('first-shop.myshopify.com'), process.env.SHOPIFY_ACCESS_TOKEN);
+  assert.equal(shopTokens.getAccessToken('second-shop.myshopify.com'), null);
+  assert.equal(shopTokens.getAccessToken('first-shop.myshopify.com'), process.env.SHOPIFY_ACCESS_TOKEN);
+});
@@ -0,0 +1,148 @@
+import { TEST_SHOP } from './helpers/env.js';
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import { once } from 'events';
+import { app } from '../app.js';
+import { jobQueue } from '../jobs.js';
+import { processedWebhooks } from '../idempotency.js';
+import { Logger } from '../logger.js';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const WEBHOOK_SECRET = process.env.SHOPIFY_WEBHOOK_SECRET || '';
+
+function fixture(name: string): any {
+  return JSON.parse(fs.readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+}
+
+function sign(body: string, secret = WEBHOOK_SECRET): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('base64');
+}
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+interface Delivery {
+  shop?: string;
+  // Sent instead of the signed body
+  body?: string;
+  hmac?: string | null;
+}
+
+async function deliver(topic: string, payload: unknown, { shop = TEST_SHOP, body, hmac }: Delivery = {}) {
+  const signedBody = JSON.stringify(payload);
+  const webhookId = crypto.randomUUID();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Shopify-Topic': topic,
+    'X-Shopify-Shop-Domain': shop,
+    'X-Shopify-Webhook-Id': webhookId,
+  };
+  if (hmac !== null) {
+    headers['X-Shopify-Hmac-Sha256'] = hmac ?? sign(signedBody);
+  }
+
+  const response = await fetch(`${baseUrl}/webhooks/${topic}`, { method: 'POST', headers, body: body ?? signedBody });
+  return { status: response.status, webhookId };
+}
+
+function order(id: number): any {
+  return { ...fixture('orders-create'), id };
+}
+
+function queuedJob(webhookId: string) {
+  return jobQueue.list().find(job => job.webhookId === webhookId);
+}
+
+test('a webhook with a valid signature is queued', async () => {
+  const { status, webhookId } = await deliver('orders/create', order(1001));
+
+  assert.equal(status, 200);
+  assert.equal(queuedJob(webhookId)?.payload.id, 1001);
+});
+
+test('a webhook whose body was tampered with is rejected', async () => {
+  const payload = order(1002);
+  const tampered = JSON.stringify({ ...payload, line_items: [{ ...payload.line_items[0], quantity: 200 }] });
+
+  const { status, webhookId } = await deliver('orders/create', payload, { body: tampered });
+
+  assert.equal(status, 401);
+  assert.equal(queuedJob(webhookId), undefined);
+});
+
+test('a webhook without a signature, or signed with another secret, is rejected', async () => {
+  const missing = await deliver('orders/create', order(1003), { hmac: null });
+  const wrongSecret = await deliver('orders/create', order(1003), { hmac: sign(JSON.stringify(order(1003)), 'another-secret') });
+
+  assert.equal(missing.status, 401);
+  assert.equal(wrongSecret.status, 401);
+  assert.equal(queuedJob(missing.webhookId), undefined);
+  assert.equal(queuedJob(wrongSecret.webhookId), undefined);
+});
+
+test('customers/data_request reports what is held for the orders', async () => {
+  const request = fixture('customers-data-request');
+  const orderId = request.orders_requested[0];
+  await deliver('orders/create', order(orderId));
+  processedWebhooks.recordLineItem(TEST_SHOP, `orders/create:${orderId}:1`, null);
+
+  const info = mock.method(Logger.prototype, 'info');
+  try {
+    const { status } = await deliver('customers/data_request', request);
+
+    assert.equal(status, 200);
+    const report = info.mock.calls.find(call => call.arguments[0] === 'Privacy request handled');
+    assert.deepEqual(report?.arguments[1]?.stored, { jobs: 1, auditEntries: 0, processedLineItems: 1, attentionRecords: 0 });
+  } finally {
+    info.mock.restore();
+  }
+});
+
+test('customers/redact removes the customer from queued orders', async () => {
+  const request = fixture('customers-redact');
+  const orderId = request.orders_to_redact[0];
+  const lineItemKey = `orders/create:${orderId}:1`;
+  const { webhookId } = await deliver('orders/create', order(orderId));
+  processedWebhooks.recordLineItem(TEST_SHOP, lineItemKey, null);
+
+  const { status } = await deliver('customers/redact', request);
+  assert.equal(status, 200);
+
+  // The order is still deducted, without the customer's details
+  const payload = queuedJob(webhookId)?.payload;
+  assert.equal(payload.id, orderId);
+  assert.deepEqual(payload.line_items, fixture('orders-create').line_items);
+  for (const field of ['customer', 'email', 'contact_email', 'phone', 'billing_address', 'shipping_address', 'note']) {
+    assert.equal(field in payload, false, `${field} was kept`);
+  }
+  assert.equal(processedWebhooks.hasLineItem(TEST_SHOP, lineItemKey), true);
+});
+
+test('shop/redact deletes everything kept about the shop', async () => {
+  const shop = 'redacted-shop.myshopify.com';
+  await deliver('orders/create', order(2001), { shop });
+  processedWebhooks.recordLineItem(shop, 'orders/create:2001:1', null);
+
+  const { status } = await deliver('shop/redact', { ...fixture('shop-redact'), shop_domain: shop }, { shop });
+
+  assert.equal(status, 200);
+  assert.equal(jobQueue.list().some(job => job.shop === shop), false);
+  // The shop/redact delivery itself is recorded once it has been answered
+  assert.deepEqual(processedWebhooks.list({ shop }).lineItems, []);
+  assert.ok(processedWebhooks.list({ shop }).webhooks.every(webhook => webhook.topic === 'shop/redact'));
+  // Other shops are untouched
+  assert.ok(jobQueue.list().some(job => job.shop === TEST_SHOP));
+});
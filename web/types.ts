@@ -1,12 +1,21 @@
-export interface BundleProduct {
+import type { BundleConfig } from '../shared/bundle-config.js';
+
+// The bundle config schema is shared with the admin extension
+export type { BundleConfig, BundleProduct, BundleComponentGroup, BundleHealthIssue } from '../shared/bundle-config.js';
+
+export interface BundleProductConfig {
   productId: string;
-  quantity: number;
-  title?: string;
+  title: string;
+  config: BundleConfig;
 }
 
-export interface BundleConfig {
-  isBundle: boolean;
-  products: BundleProduct[];
+// A product, or a variant with its product, as an import refers to it
+export interface ProductReference {
+  productId: string;
+  variantId: string | null;
+  title: string;
+  variantTitle: string | null;
+  sku: string | null;
 }
 
 export interface ShopifyLineItem {
@@ -18,6 +27,13 @@ export interface ShopifyLineItem {
   price: string;
   sku: string;
   requires_shipping: boolean;
+  location_id?: number | null;
+  properties?: ShopifyLineItemProperty[];
+}
+
+export interface ShopifyLineItemProperty {
+  name: string;
+  value: string;
 }
 
 export interface ShopifyOrder {
@@ -32,11 +48,121 @@ export interface ShopifyOrder {
   currency: string;
   financial_status: string;
   fulfillment_status: string | null;
+  location_id?: number | null;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  restock?: boolean;
   line_items: ShopifyLineItem[];
+  refunds?: ShopifyRefund[];
   shop_url?: string;
   shop_domain?: string;
 }
 
+// Mandatory privacy webhooks
+export interface PrivacyCustomer {
+  id: number;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface CustomersDataRequestPayload {
+  shop_id: number;
+  shop_domain: string;
+  customer: PrivacyCustomer;
+  orders_requested: number[];
+  data_request: { id: number };
+}
+
+export interface CustomersRedactPayload {
+  shop_id: number;
+  shop_domain: string;
+  customer: PrivacyCustomer;
+  orders_to_redact: number[];
+}
+
+export interface ShopRedactPayload {
+  shop_id: number;
+  shop_domain: string;
+}
+
+export type RestockType = 'no_restock' | 'cancel' | 'return' | 'legacy_restock';
+
+export interface ShopifyRefundLineItem {
+  id: number;
+  line_item_id: number;
+  location_id: number | null;
+  quantity: number;
+  restock_type: RestockType;
+  subtotal: number;
+  line_item: ShopifyLineItem;
+}
+
+export interface ShopifyRefund {
+  id: number;
+  order_id: number;
+  created_at: string;
+  note: string | null;
+  restock?: boolean;
+  refund_line_items: ShopifyRefundLineItem[];
+}
+
+export interface ProductVariantInventory {
+  id: string;
+  title: string;
+  inventoryItemId: string | null;
+  price?: string;
+  compareAtPrice?: string | null;
+}
+
+export interface VariantPriceUpdate {
+  id: string;
+  price: string;
+  compareAtPrice: string | null;
+}
+
+export interface ResolvedInventoryItem {
+  inventoryItemId: string;
+  tracked: boolean;
+  // Location ID -> available quantity
+  levels: Map<string, number>;
+}
+
+export interface InventoryChange {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+}
+
+export interface InventoryQuantity {
+  inventoryItemId: string;
+  locationId: string;
+  quantity: number;
+}
+
+// A bundle variant level that differs from what its components can make
+export interface BundleLevelCorrection {
+  bundleProductId: string;
+  variantId: string;
+  variantTitle: string;
+  inventoryItemId: string;
+  locationId: string;
+  before: number;
+  after: number;
+  // Label of the component with the least stock, e.g. `Mug (Red)`
+  limitingComponent: string;
+}
+
+export interface FulfillmentLocationAssignment {
+  lineItemId: string;
+  locationId: string;
+  quantity: number;
+}
+
+export interface LocationAllocation {
+  locationId: string;
+  quantity: number;
+}
+
 export interface MetafieldResponse {
   id: string;
   namespace: string;
@@ -55,6 +181,43 @@ export interface ProductQueryResponse {
   };
 }
 
+export interface BundleProductsQueryResponse {
+  data?: {
+    products?: {
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+      edges: Array<{
+        node: {
+          id: string;
+          title: string;
+          metafield: MetafieldResponse | null;
+        };
+      }>;
+    };
+  };
+}
+
+export interface ShopifyProduct {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  status?: string;
+  updated_at?: string;
+  variants?: ShopifyProductVariant[];
+}
+
+export interface ShopifyProductVariant {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+}
+
+export interface ProductDeletePayload {
+  id: number;
+}
+
 export interface InventoryAdjustmentResponse {
   data?: {
     inventoryAdjustQuantities?: {
@@ -62,6 +225,9 @@ export interface InventoryAdjustmentResponse {
         changes: Array<{
           name: string;
           delta: number;
+          quantityAfterChange: number | null;
+          item: { id: string };
+          location: { id: string };
         }>;
       };
       userErrors?: Array<{